@@ -1,87 +1,177 @@
-import type { CacheEntry, ThumbnailResult } from './types.js';
-import { detectPlatform } from './platforms.js';
-import { fetchYouTubeThumbnail, fetchPeerTubeThumbnail, fetchVimeoThumbnail } from './fetchers.js';
+import type {
+	CacheStats,
+	ProviderMatch,
+	RequestOptions,
+	ThumbnailFailure,
+	ThumbnailOutcome,
+	ThumbnailRequestOptions,
+	ThumbnailResolver,
+	ThumbnailResolverOptions,
+	ThumbnailResult,
+} from './types.js';
+import { matchProviders, videoRefKey } from './providers.js';
+import { abortable, withDeadline } from './http.js';
+import { selectThumbnailVariant } from './variants.js';
+import { failureFromError, isThumbnailFailure, mostRelevantFailure, thumbnailFailure } from './outcome.js';
+import { createMemoryCacheStore } from './store.js';
 
 
 export const CACHE_TTL = 1000 * 60 * 60 * 24;
 
 
-const thumbnailCache = new Map<string, CacheEntry>();
+interface PendingLookup {
+	promise: Promise<ThumbnailResult | ThumbnailFailure>;
+	controller: AbortController;
+	waiters: number;
+}
 
 
+async function resolveMatches(
+	matches: ProviderMatch[],
+	options: RequestOptions,
+): Promise<ThumbnailResult | ThumbnailFailure> {
+	const failures: ThumbnailFailure[] = [];
 
+	for (const { provider, ref } of matches) {
+		let result: ThumbnailResult | ThumbnailFailure | null;
+		try {
+			result = await provider.resolve(ref, options);
+		} catch (error) {
+			result = failureFromError(error, options.signal);
+		}
+		options.signal?.throwIfAborted();
+		if (result && !isThumbnailFailure(result)) return result;
+		failures.push(result ?? thumbnailFailure('not_found'));
+	}
+	return mostRelevantFailure(failures) ?? thumbnailFailure('not_found');
+}
 
 
+export function createThumbnailResolver(options: ThumbnailResolverOptions = {}): ThumbnailResolver {
+	const ttl = options.ttlMs ?? CACHE_TTL;
+	const store = options.store ?? createMemoryCacheStore();
+	const pendingLookups = new Map<string, PendingLookup>();
+
+	const startLookup = (key: string, matches: ProviderMatch[], request: RequestOptions): PendingLookup => {
+		const controller = new AbortController();
+		const promise = resolveMatches(matches, {
+			signal: controller.signal,
+			requestTimeoutMs: request.requestTimeoutMs,
+			client: request.client ?? options.client,
+		})
+			.then(async (result) => {
+				if (!isThumbnailFailure(result)) {
+					await store.set(key, { result, timestamp: Date.now() }, ttl).catch(() => {});
+				}
+				return result;
+			})
+			.finally(() => {
+				if (pendingLookups.get(key) === lookup) pendingLookups.delete(key);
+			});
+		promise.catch(() => {});
+
+		const lookup: PendingLookup = { promise, controller, waiters: 0 };
+		pendingLookups.set(key, lookup);
+		return lookup;
+	};
 
+	const resolve = async (videoUrl: string, request: ThumbnailRequestOptions = {}): Promise<ThumbnailOutcome> => {
+		const matches = matchProviders(videoUrl);
+		const [primary] = matches;
+		if (!primary) return thumbnailFailure('unsupported');
 
+		const key = videoRefKey(primary.ref);
 
+		const { signal } = withDeadline(request);
 
+		const cached = await abortable(store.get(key).catch(() => undefined), signal);
+		if (cached) {
+			const age = Date.now() - cached.timestamp;
+			if (age < ttl) {
+				return { ok: true, result: selectThumbnailVariant({ ...cached.result, cached: true }, request) };
+			}
+			await store.delete(key).catch(() => {});
+		}
 
+		signal?.throwIfAborted();
 
+		const lookup = pendingLookups.get(key) ?? startLookup(key, matches, request);
+		lookup.waiters++;
 
+		try {
+			const result = await abortable(lookup.promise, signal);
+			if (isThumbnailFailure(result)) return result;
 
-export async function getVideoThumbnail(videoUrl: string): Promise<ThumbnailResult | null> {
-	const cached = thumbnailCache.get(videoUrl);
-	if (cached) {
-		const age = Date.now() - cached.timestamp;
-		if (age < CACHE_TTL) {
-			return { ...cached.result, cached: true };
+			return { ok: true, result: selectThumbnailVariant(result, request) };
+		} finally {
+			lookup.waiters--;
+			if (lookup.waiters === 0 && signal?.aborted) {
+				lookup.controller.abort(signal.reason);
+				if (pendingLookups.get(key) === lookup) pendingLookups.delete(key);
+			}
 		}
-		thumbnailCache.delete(videoUrl);
-	}
-
-	const platform = detectPlatform(videoUrl);
-	if (!platform) return null;
-
-	let result: ThumbnailResult | null = null;
-
-	switch (platform) {
-		case 'youtube':
-			result = await fetchYouTubeThumbnail(videoUrl);
-			break;
-		case 'peertube':
-			result = await fetchPeerTubeThumbnail(videoUrl);
-			break;
-		case 'vimeo':
-			result = await fetchVimeoThumbnail(videoUrl);
-			break;
-	}
-
-	if (result) {
-		thumbnailCache.set(videoUrl, { result, timestamp: Date.now() });
-	}
+	};
 
-	return result;
+	return {
+		resolve,
+		get: async (videoUrl, request) => {
+			const outcome = await resolve(videoUrl, request);
+			return outcome.ok ? outcome.result : null;
+		},
+		clear: () => store.clear(),
+		stats: async () => {
+			const keys = await store.keys();
+			return { size: keys.length, keys };
+		},
+		prune: async () => {
+			const now = Date.now();
+			if (store.prune) return store.prune(ttl, now);
+
+			let removed = 0;
+
+			for (const key of await store.keys()) {
+				const entry = await store.get(key);
+				if (entry && now - entry.timestamp >= ttl) {
+					await store.delete(key);
+					removed++;
+				}
+			}
+
+			return removed;
+		},
+	};
 }
 
 
-export function clearThumbnailCache(): void {
-	thumbnailCache.clear();
-}
+const defaultResolver = createThumbnailResolver();
 
 
-export function getCacheStats(): { size: number; keys: string[] } {
-	return {
-		size: thumbnailCache.size,
-		keys: Array.from(thumbnailCache.keys()),
-	};
+export function getVideoThumbnail(
+	videoUrl: string,
+	options: ThumbnailRequestOptions = {},
+): Promise<ThumbnailResult | null> {
+	return defaultResolver.get(videoUrl, options);
 }
 
 
+export function resolveVideoThumbnail(
+	videoUrl: string,
+	options: ThumbnailRequestOptions = {},
+): Promise<ThumbnailOutcome> {
+	return defaultResolver.resolve(videoUrl, options);
+}
 
 
+export function clearThumbnailCache(): Promise<void> {
+	return defaultResolver.clear();
+}
 
 
-export function pruneExpiredCache(): number {
-	const now = Date.now();
-	let removed = 0;
+export function getCacheStats(): Promise<CacheStats> {
+	return defaultResolver.stats();
+}
 
-	for (const [key, entry] of thumbnailCache.entries()) {
-		if (now - entry.timestamp >= CACHE_TTL) {
-			thumbnailCache.delete(key);
-			removed++;
-		}
-	}
 
-	return removed;
+export function pruneExpiredCache(): Promise<number> {
+	return defaultResolver.prune();
 }
@@ -0,0 +1,53 @@
+import type { FetchLike, HttpClientOptions } from './types.js';
+
+
+let clientOptions: HttpClientOptions = {};
+
+
+export function configureHttpClient(options: HttpClientOptions): void {
+	clientOptions = {
+		...clientOptions,
+		...options,
+		headers: options.headers ? { ...clientOptions.headers, ...options.headers } : clientOptions.headers,
+	};
+}
+
+
+export function resetHttpClient(): void {
+	clientOptions = {};
+}
+
+
+function mergeHeaders(defaults: Record<string, string>, headers: HeadersInit | undefined): Record<string, string> {
+	const merged = { ...defaults };
+
+	new Headers(headers).forEach((value, name) => {
+		for (const key of Object.keys(merged)) {
+			if (key.toLowerCase() === name) delete merged[key];
+		}
+		merged[name] = value;
+	});
+
+	return merged;
+}
+
+
+export async function sendRequest(
+	url: string,
+	init: RequestInit,
+	client: HttpClientOptions = clientOptions,
+	transport: FetchLike = fetch,
+): Promise<Response> {
+	const defaults = client.headers;
+	let request = init;
+
+	if (defaults && Object.keys(defaults).length > 0) {
+		request = { ...init, headers: mergeHeaders(defaults, init.headers) };
+	}
+
+	if (client.onRequest) {
+		request = (await client.onRequest(url, request)) ?? request;
+	}
+
+	return (client.fetch ?? transport)(url, request);
+}
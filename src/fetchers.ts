@@ -1,98 +1,422 @@
-import type { ThumbnailResult } from './types.js';
-import { extractYouTubeId } from './platforms.js';
+import type {
+	Platform,
+	RequestOptions,
+	ThumbnailAspect,
+	ThumbnailFailure,
+	ThumbnailResult,
+	ThumbnailVariant,
+} from './types.js';
+import {
+	extractYouTubeId,
+	extractPeerTubeId,
+	extractDailymotionId,
+	parseVimeoUrl,
+	parseTwitchUrl,
+} from './platforms.js';
+import { isTrustedPeerTubeInstance } from './peertube.js';
+import { abortable, fetchWithOptions, withDeadline } from './http.js';
+import { getTwitchHeaders, applyTwitchTemplate, twitchTemplateVariants } from './twitch.js';
+import { guessImageFormat, sortVariants, toVariant } from './variants.js';
+import { imageRangeHeaders, probeImage, readImageHeader } from './image.js';
+import { createRequestLimiter, firstInPriorityOrder, getYouTubeProbeConcurrency } from './youtube.js';
+import {
+	failureFromError,
+	failureFromStatus,
+	isThumbnailFailure,
+	mostRelevantFailure,
+	successOrNull,
+	thumbnailFailure,
+} from './outcome.js';
 
 
+const YOUTUBE_SIZES = [
+	{ name: 'default', width: 120, height: 90, letterboxed: true, optional: false },
+	{ name: 'mqdefault', width: 320, height: 180, letterboxed: false, optional: false },
+	{ name: 'hqdefault', width: 480, height: 360, letterboxed: true, optional: false },
+	{ name: 'sddefault', width: 640, height: 480, letterboxed: true, optional: true },
+	{ name: 'maxresdefault', width: 1280, height: 720, letterboxed: false, optional: true },
+];
 
 
+const YOUTUBE_PLACEHOLDER_SIZE = { width: 120, height: 90 };
 
-export async function fetchYouTubeThumbnail(url: string): Promise<ThumbnailResult | null> {
+
+const PEERTUBE_THUMBNAIL_SIZE = { width: 560, height: 315 };
+
+
+const PEERTUBE_PREVIEW_SIZE = { width: 850, height: 480 };
+
+
+const VIMEO_WIDTHS = [295, 640, 960, 1280, 1920];
+
+
+
+
+
+async function probeYouTubeVariant(
+	url: string,
+	width: number,
+	height: number,
+	signal: AbortSignal,
+	options: RequestOptions,
+): Promise<ThumbnailVariant | ThumbnailFailure> {
+	const res = await fetchWithOptions(url, { headers: imageRangeHeaders(), signal }, options);
+	if (!res.ok) return failureFromStatus(res.status);
+
+	const image = await readImageHeader(res);
+	if (image?.width === YOUTUBE_PLACEHOLDER_SIZE.width && image.height === YOUTUBE_PLACEHOLDER_SIZE.height) {
+		return thumbnailFailure('not_found', { status: res.status });
+	}
+
+	return toVariant(url, image?.width ?? width, image?.height ?? height, image?.format);
+}
+
+
+export async function fetchYouTubeThumbnail(url: string, options: RequestOptions = {}): Promise<ThumbnailResult | null> {
+	return successOrNull(await resolveYouTubeThumbnail(url, options));
+}
+
+
+export async function resolveYouTubeThumbnail(
+	url: string,
+	options: RequestOptions = {},
+): Promise<ThumbnailResult | ThumbnailFailure> {
 	const videoId = extractYouTubeId(url);
-	if (!videoId) return null;
+	if (!videoId) return thumbnailFailure('unsupported');
+
+	const request = withDeadline(options, 'youtube');
+
+	const isShort = new URL(url).pathname.startsWith('/shorts/');
+	const contentAspect = (letterboxed: boolean): ThumbnailAspect | undefined =>
+		isShort ? '9:16' : letterboxed ? '16:9' : undefined;
+
+	const jpegUrl = (name: string) => `https://img.youtube.com/vi/${videoId}/${name}.jpg`;
+	const webpUrl = (name: string) => `https://i.ytimg.com/vi_webp/${videoId}/${name}.webp`;
 
 	const thumbnails = [
-		{ url: `https://img.youtube.com/vi/${videoId}/maxresdefault.jpg`, width: 1280, height: 720 },
-		{ url: `https://img.youtube.com/vi/${videoId}/hqdefault.jpg`, width: 480, height: 360 },
-		{ url: `https://img.youtube.com/vi/${videoId}/mqdefault.jpg`, width: 320, height: 180 },
+		{ name: 'maxresdefault', width: 1280, height: 720 },
+		{ name: 'sddefault', width: 640, height: 480 },
+		{ name: 'hqdefault', width: 480, height: 360 },
+		{ name: 'mqdefault', width: 320, height: 180 },
 	];
 
-	for (const thumb of thumbnails) {
-		try {
-			const res = await fetch(thumb.url, { method: 'HEAD' });
-			if (res.ok) {
-				return {
-					url: thumb.url,
-					width: thumb.width,
-					height: thumb.height,
-					platform: 'youtube',
-					cached: false,
-				};
+	const lookup = new AbortController();
+	const limit = createRequestLimiter(getYouTubeProbeConcurrency());
+	const probes = new Map<string, Promise<ThumbnailVariant | ThumbnailFailure>>();
+	const probe = (probeUrl: string, width: number, height: number, signal: AbortSignal) => {
+		let pending = probes.get(probeUrl);
+		if (!pending) {
+			pending = limit(() => probeYouTubeVariant(probeUrl, width, height, lookup.signal, request), lookup.signal).catch(
+				(error) => failureFromError(error),
+			);
+			probes.set(probeUrl, pending);
+		}
+		return abortable(pending, signal);
+	};
+
+	const failures: ThumbnailFailure[] = [];
+	const found = await firstInPriorityOrder(
+		thumbnails.map((thumb) => async (signal: AbortSignal) => {
+			const smaller = YOUTUBE_SIZES.filter((size) => size.optional && size.width < thumb.width);
+			const [jpeg, webp, ...checked] = await Promise.all([
+				probe(jpegUrl(thumb.name), thumb.width, thumb.height, signal),
+				probe(webpUrl(thumb.name), thumb.width, thumb.height, signal),
+				...smaller.map((size) => probe(jpegUrl(size.name), size.width, size.height, signal)),
+			]);
+			if (!jpeg || isThumbnailFailure(jpeg)) {
+				if (jpeg) failures.push(jpeg);
+				return null;
 			}
-		} catch {
-			continue;
+
+			const confirmed = new Map<string, ThumbnailVariant>();
+			smaller.forEach((size, i) => {
+				const variant = checked[i];
+				if (variant && !isThumbnailFailure(variant)) confirmed.set(size.name, variant);
+			});
+			return { thumb, jpeg, webp: webp && !isThumbnailFailure(webp) ? webp : null, confirmed };
+		}),
+		thumbnails.length,
+	).finally(() => lookup.abort());
+	request.signal?.throwIfAborted();
+	if (!found) return mostRelevantFailure(failures) ?? thumbnailFailure('not_found');
+
+	const { thumb, jpeg, webp, confirmed } = found;
+
+	const sizes = YOUTUBE_SIZES.filter(
+		(size) => size.width <= thumb.width && (!size.optional || size.name === thumb.name || confirmed.has(size.name)),
+	);
+	const variants = sizes.flatMap((size) => {
+		const isFound = size.name === thumb.name;
+		const formats = [
+			isFound ? jpeg : (confirmed.get(size.name) ?? toVariant(jpegUrl(size.name), size.width, size.height)),
+		];
+		if (webp) {
+			formats.push(isFound ? webp : toVariant(webpUrl(size.name), size.width, size.height));
 		}
-	}
 
-	return null;
+		const aspect = contentAspect(size.letterboxed);
+		return formats.map((variant) => (aspect ? { ...variant, contentAspect: aspect } : variant));
+	});
+
+	return {
+		url: jpeg.url,
+		width: jpeg.width,
+		height: jpeg.height,
+		format: jpeg.format,
+		platform: 'youtube',
+		cached: false,
+		variants,
+	};
 }
 
 
 
 
-export async function fetchPeerTubeThumbnail(url: string): Promise<ThumbnailResult | null> {
+export async function fetchPeerTubeThumbnail(url: string, options: RequestOptions = {}): Promise<ThumbnailResult | null> {
+	return successOrNull(await resolvePeerTubeThumbnail(url, options));
+}
+
+
+export async function resolvePeerTubeThumbnail(
+	url: string,
+	options: RequestOptions = {},
+): Promise<ThumbnailResult | ThumbnailFailure> {
+	if (!URL.canParse(url)) return thumbnailFailure('unsupported');
+
+	const request = withDeadline(options, 'peertube');
+
 	try {
 		const urlObj = new URL(url);
 		const instance = urlObj.origin;
 
-		const uuidMatch = url.match(/\/(?:videos\/watch|w)\/([a-zA-Z0-9-]+)/);
-		if (!uuidMatch?.[1]) return null;
+		const uuid = extractPeerTubeId(urlObj.pathname);
+		if (!uuid) return thumbnailFailure('unsupported');
+
+		const trusted = isTrustedPeerTubeInstance(urlObj, {
+			requestTimeoutMs: request.requestTimeoutMs,
+			client: request.client,
+		});
+		if (!(await abortable(trusted, request.signal))) return thumbnailFailure('unsupported');
 
-		const uuid = uuidMatch[1];
 		const apiUrl = `${instance}/api/v1/videos/${uuid}`;
 
-		const res = await fetch(apiUrl, {
-			headers: { Accept: 'application/json' },
-		});
-		if (!res.ok) return null;
+		const res = await fetchWithOptions(
+			apiUrl,
+			{ headers: { Accept: 'application/json' } },
+			request,
+		);
+		if (!res.ok) return failureFromStatus(res.status);
 
 		const data = (await res.json()) as Record<string, unknown>;
 		const thumbnailPath = (data.thumbnailPath ?? data.previewPath) as string | undefined;
-		if (!thumbnailPath) return null;
+		if (!thumbnailPath) return thumbnailFailure('not_found');
+
+		const thumbnailUrl = `${instance}${thumbnailPath}`;
+		const image = await probeImage(thumbnailUrl, undefined, request).catch(() => null);
+		request.signal?.throwIfAborted();
+		const variants = peerTubeVariants(instance, data);
 
 		return {
-			url: `${instance}${thumbnailPath}`,
-			width: 560,
-			height: 315,
+			url: thumbnailUrl,
+			width: image?.width ?? PEERTUBE_THUMBNAIL_SIZE.width,
+			height: image?.height ?? PEERTUBE_THUMBNAIL_SIZE.height,
+			format: image?.format ?? guessImageFormat(thumbnailUrl),
 			platform: 'peertube',
 			cached: false,
+			variants: image
+				? variants.map((v) => (v.url === thumbnailUrl ? toVariant(v.url, image.width, image.height, image.format) : v))
+				: variants,
 		};
-	} catch {
-		return null;
+	} catch (error) {
+		return failureFromError(error, request.signal);
 	}
 }
 
 
 
 
-export async function fetchVimeoThumbnail(url: string): Promise<ThumbnailResult | null> {
-	try {
-		const oembedUrl = `https://vimeo.com/api/oembed.json?url=${encodeURIComponent(url)}`;
+function peerTubeVariants(instance: string, data: Record<string, unknown>): ThumbnailVariant[] {
+	const variants: ThumbnailVariant[] = [];
 
-		const res = await fetch(oembedUrl, {
-			headers: { Accept: 'application/json' },
-		});
-		if (!res.ok) return null;
+	for (const list of [data.thumbnails, data.previews]) {
+		if (!Array.isArray(list)) continue;
+		for (const item of list as Array<Record<string, unknown>>) {
+			const path = typeof item.path === 'string' ? `${instance}${item.path}` : null;
+			const url = typeof item.fileUrl === 'string' ? item.fileUrl : path;
+			if (url && typeof item.width === 'number' && typeof item.height === 'number') {
+				variants.push(toVariant(url, item.width, item.height));
+			}
+		}
+	}
+
+	if (typeof data.thumbnailPath === 'string') {
+		variants.push(toVariant(`${instance}${data.thumbnailPath}`, PEERTUBE_THUMBNAIL_SIZE.width, PEERTUBE_THUMBNAIL_SIZE.height));
+	}
+	if (typeof data.previewPath === 'string') {
+		variants.push(toVariant(`${instance}${data.previewPath}`, PEERTUBE_PREVIEW_SIZE.width, PEERTUBE_PREVIEW_SIZE.height));
+	}
+
+	return sortVariants(variants);
+}
+
+
+export async function fetchOEmbedThumbnail(
+	oembedUrl: string,
+	platform: Platform,
+	options: RequestOptions = {},
+): Promise<ThumbnailResult | null> {
+	return successOrNull(await resolveOEmbedThumbnail(oembedUrl, platform, options));
+}
+
+
+export async function resolveOEmbedThumbnail(
+	oembedUrl: string,
+	platform: Platform,
+	options: RequestOptions = {},
+): Promise<ThumbnailResult | ThumbnailFailure> {
+	const request = withDeadline(options, platform);
+
+	try {
+		const res = await fetchWithOptions(
+			oembedUrl,
+			{ headers: { Accept: 'application/json' } },
+			request,
+		);
+		if (!res.ok) return failureFromStatus(res.status);
 
 		const data = (await res.json()) as Record<string, unknown>;
-		if (!data.thumbnail_url) return null;
+		if (!data.thumbnail_url) return thumbnailFailure('not_found');
+
+		const url = data.thumbnail_url as string;
+		const width = (data.thumbnail_width as number) || 640;
+		const height = (data.thumbnail_height as number) || 360;
+
+		return {
+			url,
+			width,
+			height,
+			format: guessImageFormat(url),
+			platform,
+			cached: false,
+			variants: [toVariant(url, width, height)],
+		};
+	} catch (error) {
+		return failureFromError(error, request.signal);
+	}
+}
+
+
+
+
+export async function fetchVimeoThumbnail(url: string, options: RequestOptions = {}): Promise<ThumbnailResult | null> {
+	return successOrNull(await resolveVimeoThumbnail(url, options));
+}
+
+
+export async function resolveVimeoThumbnail(
+	url: string,
+	options: RequestOptions = {},
+): Promise<ThumbnailResult | ThumbnailFailure> {
+	const video = parseVimeoUrl(url);
+	if (!video) return thumbnailFailure('unsupported');
+
+	const pageUrl = video.hash
+		? `https://vimeo.com/${video.id}/${video.hash}`
+		: `https://vimeo.com/${video.id}`;
+
+	const result = await resolveOEmbedThumbnail(
+		`https://vimeo.com/api/oembed.json?url=${encodeURIComponent(pageUrl)}`,
+		'vimeo',
+		options,
+	);
+	if (isThumbnailFailure(result)) return result;
+
+	return { ...result, variants: vimeoVariants(result.url, result.width, result.height) };
+}
+
+
+function vimeoVariants(url: string, width: number, height: number): ThumbnailVariant[] {
+	const match = url.match(/^(.*_)\d+(?:x\d+)?(\.[a-z]+)?(\?.*)?$/i);
+	if (!match) return [toVariant(url, width, height)];
+
+	const [, prefix, extension = '', query = ''] = match;
+	const widths = new Set([...VIMEO_WIDTHS, width]);
+
+	return sortVariants(
+		Array.from(widths, (w) => {
+			const h = Math.round((w * height) / width);
+			return toVariant(`${prefix}${w}x${h}${extension}${query}`, w, h);
+		}),
+	);
+}
+
+
+
+
+export async function fetchDailymotionThumbnail(url: string, options: RequestOptions = {}): Promise<ThumbnailResult | null> {
+	return successOrNull(await resolveDailymotionThumbnail(url, options));
+}
+
+
+export async function resolveDailymotionThumbnail(
+	url: string,
+	options: RequestOptions = {},
+): Promise<ThumbnailResult | ThumbnailFailure> {
+	const videoId = extractDailymotionId(url);
+	if (!videoId) return thumbnailFailure('unsupported');
+
+	const pageUrl = `https://www.dailymotion.com/video/${videoId}`;
+
+	return resolveOEmbedThumbnail(
+		`https://www.dailymotion.com/services/oembed?format=json&url=${encodeURIComponent(pageUrl)}`,
+		'dailymotion',
+		options,
+	);
+}
+
+
+
+
+export async function fetchTwitchThumbnail(url: string, options: RequestOptions = {}): Promise<ThumbnailResult | null> {
+	return successOrNull(await resolveTwitchThumbnail(url, options));
+}
+
+
+export async function resolveTwitchThumbnail(
+	url: string,
+	options: RequestOptions = {},
+): Promise<ThumbnailResult | ThumbnailFailure> {
+	const video = parseTwitchUrl(url);
+	if (!video) return thumbnailFailure('unsupported');
+
+	const headers = getTwitchHeaders();
+	if (!headers) return thumbnailFailure('unsupported');
+
+	const request = withDeadline(options, 'twitch');
+
+	try {
+		const endpoint = video.kind === 'clip' ? 'clips' : 'videos';
+		const res = await fetchWithOptions(
+			`https://api.twitch.tv/helix/${endpoint}?id=${encodeURIComponent(video.id)}`,
+			{ headers },
+			request,
+		);
+		if (!res.ok) return failureFromStatus(res.status);
+
+		const body = (await res.json()) as { data?: Array<Record<string, unknown>> };
+		const thumbnailUrl = body.data?.[0]?.thumbnail_url;
+		if (typeof thumbnailUrl !== 'string' || !thumbnailUrl) return thumbnailFailure('not_found');
+
+		const thumbnail = applyTwitchTemplate(thumbnailUrl);
 
 		return {
-			url: data.thumbnail_url as string,
-			width: (data.thumbnail_width as number) || 640,
-			height: (data.thumbnail_height as number) || 360,
-			platform: 'vimeo',
+			...thumbnail,
+			format: guessImageFormat(thumbnail.url),
+			platform: 'twitch',
 			cached: false,
+			variants: twitchTemplateVariants(thumbnailUrl),
 		};
-	} catch {
-		return null;
+	} catch (error) {
+		return failureFromError(error, request.signal);
 	}
 }
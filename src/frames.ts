@@ -0,0 +1,283 @@
+import { execFile } from 'node:child_process';
+import { createHash, randomUUID } from 'node:crypto';
+import { mkdir, mkdtemp, open, readFile, rename, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { basename, dirname, extname, join } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import type {
+	FrameProviderOptions,
+	HttpRequestOptions,
+	RequestOptions,
+	ThumbnailFailure,
+	ThumbnailProvider,
+	ThumbnailResult,
+	VideoRef,
+} from './types.js';
+import { fetchWithOptions, withDeadline } from './http.js';
+import { failureFromError, failureFromStatus, isThumbnailFailure, successOrNull, thumbnailFailure } from './outcome.js';
+import { findSegment, selectVariant, writeMediaPlaylist } from './hls.js';
+import type { HlsFiles } from './hls.js';
+import { toVariant } from './variants.js';
+
+
+const DEFAULT_EXTENSIONS = ['.mp4', '.webm', '.m3u8'];
+
+
+const DEFAULT_OFFSET_SECONDS = 1;
+
+
+const DEFAULT_TIMEOUT_MS = 30_000;
+
+
+const DEFAULT_MAX_BYTES = 64 * 1024 * 1024;
+
+
+function run(file: string, args: string[], timeout: number, signal?: AbortSignal): Promise<string> {
+	return new Promise((resolve, reject) => {
+		execFile(file, args, { timeout, maxBuffer: 1024 * 1024, signal }, (error, stdout) => {
+			if (error) reject(error);
+			else resolve(String(stdout));
+		});
+	});
+}
+
+
+interface PreparedInput {
+	input: string;
+	seek: number;
+}
+
+
+function tooLarge(url: string, maxBytes: number): ThumbnailFailure {
+	return thumbnailFailure('unsupported', { cause: new Error(`${url} is larger than ${maxBytes} bytes`) });
+}
+
+
+function localExtension(url: string, fallback: string): string {
+	return extname(new URL(url).pathname).toLowerCase() || fallback;
+}
+
+
+async function downloadInput(
+	url: string,
+	file: string,
+	maxBytes: number,
+	request: HttpRequestOptions,
+): Promise<ThumbnailFailure | null> {
+	const res = await fetchWithOptions(url, {}, request);
+	if (!res.ok || !res.body) {
+		await res.body?.cancel().catch(() => {});
+		return failureFromStatus(res.status);
+	}
+	if (Number(res.headers?.get('content-length')) > maxBytes) {
+		await res.body.cancel().catch(() => {});
+		return tooLarge(url, maxBytes);
+	}
+
+	const reader = res.body.getReader();
+	const handle = await open(file, 'w');
+	let received = 0;
+
+	try {
+		for (;;) {
+			const { done, value } = await reader.read();
+			if (done) return null;
+
+			received += value.byteLength;
+			if (received > maxBytes) return tooLarge(url, maxBytes);
+			await handle.write(value);
+		}
+	} finally {
+		reader.cancel().catch(() => {});
+		await handle.close();
+	}
+}
+
+
+async function downloadPlaylist(
+	url: string,
+	file: string,
+	maxBytes: number,
+	request: HttpRequestOptions,
+): Promise<string | ThumbnailFailure> {
+	const failed = await downloadInput(url, file, maxBytes, request);
+	return failed ?? readFile(file, 'utf8');
+}
+
+
+async function prepareFileInput(
+	url: string,
+	workDir: string,
+	offset: number,
+	maxBytes: number,
+	request: HttpRequestOptions,
+): Promise<PreparedInput | ThumbnailFailure> {
+	const input = join(workDir, `input${localExtension(url, '')}`);
+	const failed = await downloadInput(url, input, maxBytes, request);
+	return failed ?? { input, seek: offset };
+}
+
+
+async function prepareHlsInput(
+	url: string,
+	workDir: string,
+	offset: number,
+	maxBytes: number,
+	request: HttpRequestOptions,
+): Promise<PreparedInput | ThumbnailFailure> {
+	let playlistUrl = url;
+	let playlist = await downloadPlaylist(playlistUrl, join(workDir, 'source.m3u8'), maxBytes, request);
+	if (isThumbnailFailure(playlist)) return playlist;
+
+	const variant = selectVariant(playlist, playlistUrl);
+	if (variant) {
+		playlistUrl = variant;
+		playlist = await downloadPlaylist(playlistUrl, join(workDir, 'variant.m3u8'), maxBytes, request);
+		if (isThumbnailFailure(playlist)) return playlist;
+	}
+
+	const segment = findSegment(playlist, playlistUrl, offset);
+	if (!segment) return thumbnailFailure('unsupported');
+
+	const files: HlsFiles = { segment: `segment${localExtension(segment.url, '.ts')}` };
+	const downloads: Array<[string, string]> = [[segment.url, files.segment]];
+	if (segment.key) {
+		files.key = 'segment.key';
+		downloads.push([segment.key.URI ?? '', files.key]);
+	}
+	if (segment.map) {
+		files.map = `init${localExtension(segment.map, '.mp4')}`;
+		downloads.push([segment.map, files.map]);
+	}
+
+	for (const [source, name] of downloads) {
+		const failed = await downloadInput(source, join(workDir, name), maxBytes, request);
+		if (failed) return failed;
+	}
+
+	const input = join(workDir, 'input.m3u8');
+	await writeFile(input, writeMediaPlaylist(segment, files));
+	return { input, seek: Math.max(0, offset - segment.start) };
+}
+
+
+function defaultProbePath(ffmpegPath: string): string {
+	const name = basename(ffmpegPath).replace(/ffmpeg/i, 'ffprobe');
+	return dirname(ffmpegPath) === '.' ? name : join(dirname(ffmpegPath), name);
+}
+
+
+async function probeDimensions(
+	ffprobePath: string,
+	file: string,
+	timeout: number,
+	signal?: AbortSignal,
+): Promise<{ width: number; height: number } | null> {
+	const output = await run(
+		ffprobePath,
+		['-v', 'error', '-select_streams', 'v:0', '-show_entries', 'stream=width,height', '-of', 'json', file],
+		timeout,
+		signal,
+	);
+	const stream = (JSON.parse(output) as { streams?: Array<{ width?: number; height?: number }> }).streams?.[0];
+	return stream?.width && stream.height ? { width: stream.width, height: stream.height } : null;
+}
+
+
+export async function extractVideoFrame(
+	ref: VideoRef,
+	options: FrameProviderOptions,
+	requestOptions: RequestOptions = {},
+): Promise<ThumbnailResult | null> {
+	return successOrNull(await resolveVideoFrame(ref, options, requestOptions));
+}
+
+
+export async function resolveVideoFrame(
+	ref: VideoRef,
+	options: FrameProviderOptions,
+	requestOptions: RequestOptions = {},
+): Promise<ThumbnailResult | ThumbnailFailure> {
+	const request = withDeadline(requestOptions, 'file');
+	const { signal } = request;
+	const offset = ref.startTime ?? options.offsetSeconds ?? DEFAULT_OFFSET_SECONDS;
+	const timeout = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+	const name = `${createHash('sha256').update(`${ref.url}\n${offset}`).digest('hex').slice(0, 32)}.jpg`;
+	const maxBytes = options.maxBytes ?? DEFAULT_MAX_BYTES;
+	const target = join(options.outputDir, name);
+	const temp = join(options.outputDir, `.${name}.${randomUUID()}.tmp.jpg`);
+
+	const source = new URL(ref.url);
+	source.hash = '';
+	const hls = source.pathname.toLowerCase().endsWith('.m3u8');
+	let workDir: string | undefined;
+
+	try {
+		workDir = await mkdtemp(join(tmpdir(), 'video-frame-'));
+		const prepare = hls ? prepareHlsInput : prepareFileInput;
+		const prepared = await prepare(source.href, workDir, offset, maxBytes, request).catch((error) =>
+			failureFromError(error, signal),
+		);
+		if (isThumbnailFailure(prepared)) return prepared;
+
+		await mkdir(options.outputDir, { recursive: true });
+		await run(
+			options.ffmpegPath,
+			[
+				'-hide_banner',
+				'-loglevel', 'error',
+				'-protocol_whitelist', hls ? 'file,crypto' : 'file',
+				...(hls ? ['-allowed_extensions', 'ALL'] : []),
+				'-ss', String(prepared.seek),
+				'-i', prepared.input,
+				'-frames:v', '1',
+				'-q:v', '2',
+				'-y', temp,
+			],
+			timeout,
+			signal,
+		);
+
+		const size = await probeDimensions(
+			options.ffprobePath ?? defaultProbePath(options.ffmpegPath),
+			temp,
+			timeout,
+			signal,
+		);
+		if (!size) return thumbnailFailure('invalid_response');
+
+		await rename(temp, target);
+
+		const url = options.publicBaseUrl ? new URL(name, options.publicBaseUrl).href : pathToFileURL(target).href;
+
+		return {
+			url,
+			width: size.width,
+			height: size.height,
+			format: 'jpeg',
+			platform: 'file',
+			cached: false,
+			variants: [toVariant(url, size.width, size.height, 'jpeg')],
+		};
+	} catch (error) {
+		signal?.throwIfAborted();
+		return thumbnailFailure('invalid_response', { cause: error });
+	} finally {
+		await rm(temp, { force: true }).catch(() => {});
+		if (workDir) await rm(workDir, { recursive: true, force: true }).catch(() => {});
+	}
+}
+
+
+export function createFrameProvider(options: FrameProviderOptions): ThumbnailProvider {
+	const extensions = (options.extensions ?? DEFAULT_EXTENSIONS).map((ext) => ext.toLowerCase());
+
+	return {
+		platform: 'file',
+		matches: (url) =>
+			(url.protocol === 'http:' || url.protocol === 'https:') &&
+			extensions.some((ext) => url.pathname.toLowerCase().endsWith(ext)),
+		extractId: (url) => `${url.pathname}${url.search}${url.hash}`,
+		resolve: (ref, requestOptions) => resolveVideoFrame(ref, options, requestOptions),
+	};
+}
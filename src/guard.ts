@@ -0,0 +1,253 @@
+import { BlockList, isIP } from 'node:net';
+import { lookup as dnsLookup } from 'node:dns/promises';
+import type { FetchLike, HttpClientOptions, RequestGuardOptions, ResolvedAddress } from './types.js';
+import { sendRequest } from './client.js';
+import { createPinnedFetch } from './transport.js';
+
+
+const DEFAULT_MAX_REDIRECTS = 5;
+
+
+const PUBLIC_HOSTS = new Set([
+	'img.youtube.com',
+	'i.ytimg.com',
+	'vimeo.com',
+	'i.vimeocdn.com',
+	'www.dailymotion.com',
+	'api.twitch.tv',
+]);
+
+
+const blockedRanges = new BlockList();
+
+for (const [network, prefix] of [
+	['0.0.0.0', 8],
+	['10.0.0.0', 8],
+	['100.64.0.0', 10],
+	['127.0.0.0', 8],
+	['169.254.0.0', 16],
+	['172.16.0.0', 12],
+	['192.0.0.0', 24],
+	['192.0.2.0', 24],
+	['192.88.99.0', 24],
+	['192.168.0.0', 16],
+	['198.18.0.0', 15],
+	['198.51.100.0', 24],
+	['203.0.113.0', 24],
+	['224.0.0.0', 4],
+	['240.0.0.0', 4],
+] as const) {
+	blockedRanges.addSubnet(network, prefix, 'ipv4');
+}
+
+for (const [network, prefix] of [
+	['::', 128],
+	['::1', 128],
+	['64:ff9b:1::', 48],
+	['100::', 64],
+	['2001::', 23],
+	['2001:db8::', 32],
+	['fc00::', 7],
+	['fe80::', 10],
+	['fec0::', 10],
+	['ff00::', 8],
+] as const) {
+	blockedRanges.addSubnet(network, prefix, 'ipv6');
+}
+
+
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+
+
+const CREDENTIAL_HEADERS = ['authorization', 'proxy-authorization', 'cookie'];
+
+
+export class BlockedRequestError extends Error {
+	constructor(
+		message: string,
+		public readonly url: string,
+	) {
+		super(message);
+		this.name = 'BlockedRequestError';
+	}
+}
+
+
+let guardOptions: RequestGuardOptions = {};
+
+
+export function configureRequestGuard(options: RequestGuardOptions): void {
+	guardOptions = { ...guardOptions, ...options };
+}
+
+
+export function resetRequestGuard(): void {
+	guardOptions = {};
+}
+
+
+function expandIPv6(address: string): number[] | null {
+	let value = address;
+	const dotted = value.match(/^(.*:)(\d+\.\d+\.\d+\.\d+)$/);
+	if (dotted?.[1] && dotted[2]) {
+		const [a = 0, b = 0, c = 0, d = 0] = dotted[2].split('.').map(Number);
+		value = `${dotted[1]}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+	}
+
+	const [head = '', tail] = value.split('::');
+	const headGroups = head ? head.split(':') : [];
+	const tailGroups = tail ? tail.split(':') : [];
+	const missing = 8 - headGroups.length - tailGroups.length;
+	if (missing < 0 || (tail === undefined && missing !== 0)) return null;
+
+	return [...headGroups, ...Array<string>(missing).fill('0'), ...tailGroups].map((g) => parseInt(g, 16));
+}
+
+
+function embeddedIPv4(address: string): string | null {
+	const groups = expandIPv6(address);
+	if (!groups) return null;
+
+	const toIPv4 = (high: number, low: number) => `${high >> 8}.${high & 0xff}.${low >> 8}.${low & 0xff}`;
+
+	if (groups[0] === 0x64 && groups[1] === 0xff9b && groups.slice(2, 6).every((g) => g === 0)) {
+		return toIPv4(groups[6] ?? 0, groups[7] ?? 0);
+	}
+	if (groups[0] === 0x2002) {
+		return toIPv4(groups[1] ?? 0, groups[2] ?? 0);
+	}
+	return null;
+}
+
+
+export function isBlockedAddress(address: string): boolean {
+	const family = isIP(address);
+	if (family === 4) return blockedRanges.check(address, 'ipv4');
+	if (family !== 6) return true;
+
+	if (blockedRanges.check(address, 'ipv6')) return true;
+	const ipv4 = embeddedIPv4(address);
+	return ipv4 !== null && blockedRanges.check(ipv4, 'ipv4');
+}
+
+
+async function defaultLookup(hostname: string): Promise<ResolvedAddress[]> {
+	return dnsLookup(hostname, { all: true, verbatim: true });
+}
+
+
+function isAllowedHost(host: string): boolean {
+	return (guardOptions.allowedHosts ?? []).some((allowed) => allowed.toLowerCase() === host);
+}
+
+
+async function resolveAllowedAddresses(hostname: string, url: string): Promise<ResolvedAddress[]> {
+	const addresses = isIP(hostname)
+		? [{ address: hostname, family: isIP(hostname) }]
+		: await (guardOptions.lookup ?? defaultLookup)(hostname);
+
+	if (addresses.length === 0) {
+		throw new BlockedRequestError(`Could not resolve ${hostname}`, url);
+	}
+	for (const { address } of addresses) {
+		if (isBlockedAddress(address)) {
+			throw new BlockedRequestError(`Address ${address} for ${hostname} is not allowed`, url);
+		}
+	}
+
+	return addresses;
+}
+
+
+async function resolveConnectAddresses(urlObj: URL): Promise<ResolvedAddress[]> {
+	const hostname = urlObj.hostname.toLowerCase().replace(/^\[(.*)\]$/, '$1');
+	if (isAllowedHost(urlObj.host.toLowerCase()) || isAllowedHost(hostname)) {
+		return (guardOptions.lookup ?? defaultLookup)(hostname);
+	}
+	return resolveAllowedAddresses(hostname, urlObj.href);
+}
+
+
+const nativeFetch = globalThis.fetch;
+
+
+const pinnedFetch = createPinnedFetch(resolveConnectAddresses);
+
+
+/** A `fetch` installed globally after load (a polyfill or test double) is used as-is. */
+function defaultTransport(): FetchLike {
+	return globalThis.fetch === nativeFetch ? pinnedFetch : globalThis.fetch;
+}
+
+
+export async function assertRequestAllowed(url: string): Promise<URL> {
+	let urlObj: URL;
+	try {
+		urlObj = new URL(url);
+	} catch {
+		throw new BlockedRequestError(`Invalid URL: ${url}`, url);
+	}
+
+	if (urlObj.protocol !== 'http:' && urlObj.protocol !== 'https:') {
+		throw new BlockedRequestError(`Scheme ${urlObj.protocol} is not allowed`, url);
+	}
+
+	const hostname = urlObj.hostname.toLowerCase().replace(/^\[(.*)\]$/, '$1');
+	if (isAllowedHost(urlObj.host.toLowerCase()) || isAllowedHost(hostname)) {
+		return urlObj;
+	}
+
+	if (urlObj.port && !(guardOptions.allowedPorts ?? []).includes(Number(urlObj.port))) {
+		throw new BlockedRequestError(`Port ${urlObj.port} is not allowed`, url);
+	}
+
+	if (PUBLIC_HOSTS.has(hostname)) {
+		return urlObj;
+	}
+
+	await resolveAllowedAddresses(hostname, url);
+	return urlObj;
+}
+
+
+function withoutCredentials(headers: HeadersInit | undefined): Record<string, string> {
+	const stripped: Record<string, string> = {};
+	new Headers(headers).forEach((value, name) => {
+		if (!CREDENTIAL_HEADERS.includes(name)) stripped[name] = value;
+	});
+	return stripped;
+}
+
+
+/**
+ * Checks every hop before it is requested. Unless a `fetch` is configured (see `configureHttpClient`),
+ * connections go only to addresses that pass the same check, so a host cannot rebind to a blocked one in between.
+ */
+export async function guardedFetch(
+	url: string,
+	init: RequestInit = {},
+	client?: HttpClientOptions,
+): Promise<Response> {
+	const maxRedirects = guardOptions.maxRedirects ?? DEFAULT_MAX_REDIRECTS;
+	let target = url;
+	let request = init;
+
+	for (let redirects = 0; ; redirects++) {
+		await assertRequestAllowed(target);
+
+		const res = await sendRequest(target, { ...request, redirect: 'manual' }, client, defaultTransport());
+		const location = REDIRECT_STATUSES.has(res.status) ? res.headers?.get('location') : null;
+		if (!location) return res;
+
+		await res.body?.cancel().catch(() => {});
+		if (redirects >= maxRedirects) {
+			throw new BlockedRequestError(`Too many redirects from ${url}`, url);
+		}
+
+		const next = new URL(location, target);
+		if (next.origin !== new URL(target).origin && request.headers) {
+			request = { ...request, headers: withoutCredentials(request.headers) };
+		}
+		target = next.href;
+	}
+}
@@ -0,0 +1,120 @@
+const ATTRIBUTE = /([A-Z0-9-]+)=("[^"]*"|[^,]*)/g;
+
+
+export interface HlsSegment {
+	url: string;
+	start: number;
+	duration: number;
+	sequence: number;
+	key?: Record<string, string>;
+	map?: string;
+}
+
+
+export interface HlsFiles {
+	segment: string;
+	key?: string;
+	map?: string;
+}
+
+
+function readAttributes(line: string): Record<string, string> {
+	const attributes: Record<string, string> = {};
+	for (const [, name, value] of line.slice(line.indexOf(':') + 1).matchAll(ATTRIBUTE)) {
+		if (name && value !== undefined) attributes[name] = value;
+	}
+	return attributes;
+}
+
+
+function unquote(value: string | undefined): string | undefined {
+	return value?.replace(/^"(.*)"$/, '$1');
+}
+
+
+function playlistLines(text: string): string[] {
+	return text.split(/\r?\n/).map((line) => line.trim()).filter(Boolean);
+}
+
+
+export function selectVariant(text: string, baseUrl: string): string | null {
+	const lines = playlistLines(text);
+	let best: string | null = null;
+	let bestBandwidth = -1;
+
+	for (let i = 0; i < lines.length - 1; i++) {
+		const line = lines[i] ?? '';
+		const uri = lines[i + 1] ?? '';
+		if (!line.startsWith('#EXT-X-STREAM-INF:') || uri.startsWith('#')) continue;
+
+		const bandwidth = Number(readAttributes(line).BANDWIDTH) || 0;
+		if (bandwidth > bestBandwidth) {
+			best = new URL(uri, baseUrl).href;
+			bestBandwidth = bandwidth;
+		}
+	}
+
+	return best;
+}
+
+
+export function findSegment(text: string, baseUrl: string, offset: number): HlsSegment | null {
+	const segments: HlsSegment[] = [];
+	let sequence = 0;
+	let start = 0;
+	let duration: number | undefined;
+	let key: Record<string, string> | undefined;
+	let map: string | undefined;
+
+	for (const line of playlistLines(text)) {
+		if (line.startsWith('#EXT-X-MEDIA-SEQUENCE:')) {
+			sequence = Number.parseInt(line.slice(line.indexOf(':') + 1), 10) || 0;
+		} else if (line.startsWith('#EXT-X-BYTERANGE:')) {
+			return null;
+		} else if (line.startsWith('#EXT-X-KEY:')) {
+			const attributes = readAttributes(line);
+			const uri = unquote(attributes.URI);
+			key = attributes.METHOD === 'NONE' ? undefined : { ...attributes, URI: uri ? new URL(uri, baseUrl).href : '' };
+		} else if (line.startsWith('#EXT-X-MAP:')) {
+			const attributes = readAttributes(line);
+			const uri = unquote(attributes.URI);
+			if (!uri || attributes.BYTERANGE) return null;
+			map = new URL(uri, baseUrl).href;
+		} else if (line.startsWith('#EXTINF:')) {
+			duration = Number.parseFloat(line.slice(line.indexOf(':') + 1)) || 0;
+		} else if (!line.startsWith('#')) {
+			segments.push({
+				url: new URL(line, baseUrl).href,
+				start,
+				duration: duration ?? 0,
+				sequence: sequence + segments.length,
+				key,
+				map,
+			});
+			start += duration ?? 0;
+			duration = undefined;
+		}
+	}
+
+	return segments.find((segment) => offset < segment.start + segment.duration) ?? segments.at(-1) ?? null;
+}
+
+
+export function writeMediaPlaylist(segment: HlsSegment, files: HlsFiles): string {
+	const lines = [
+		'#EXTM3U',
+		`#EXT-X-TARGETDURATION:${Math.max(1, Math.ceil(segment.duration))}`,
+		`#EXT-X-MEDIA-SEQUENCE:${segment.sequence}`,
+	];
+
+	if (segment.key) {
+		const attributes = Object.entries(segment.key).map(([name, value]) =>
+			name === 'URI' ? `URI="${files.key ?? ''}"` : `${name}=${value}`,
+		);
+		lines.push(`#EXT-X-KEY:${attributes.join(',')}`);
+	}
+	if (files.map) lines.push(`#EXT-X-MAP:URI="${files.map}"`);
+
+	lines.push(`#EXTINF:${segment.duration},`, files.segment, '#EXT-X-ENDLIST', '');
+	return lines.join('\n');
+}
@@ -0,0 +1,76 @@
+const DEFAULT_HEAD_BUDGET = 64 * 1024;
+
+
+const HEAD_END = /<\/head\s*>|<body[\s>]/i;
+
+
+const ENTITIES: Record<string, string> = {
+	amp: '&',
+	lt: '<',
+	gt: '>',
+	quot: '"',
+	apos: "'",
+};
+
+
+function decodeCodePoint(entity: string, digits: string, radix: number): string {
+	const codePoint = parseInt(digits, radix);
+	if (codePoint === 0 || codePoint > 0x10ffff || (codePoint >= 0xd800 && codePoint <= 0xdfff)) return entity;
+	return String.fromCodePoint(codePoint);
+}
+
+
+export function decodeEntities(value: string): string {
+	return value.replace(/&(?:#(\d+)|#x([0-9a-f]+)|([a-z0-9]+));/gi, (entity, decimal?: string, hex?: string, name?: string) => {
+		if (decimal) return decodeCodePoint(entity, decimal, 10);
+		if (hex) return decodeCodePoint(entity, hex, 16);
+		return (name && (ENTITIES[name] ?? ENTITIES[name.toLowerCase()])) ?? entity;
+	});
+}
+
+
+export async function readHtmlHead(res: Response, maxBytes = DEFAULT_HEAD_BUDGET): Promise<string> {
+	if (!res.body) return '';
+
+	const reader = res.body.getReader();
+	const decoder = new TextDecoder();
+	let html = '';
+	let received = 0;
+
+	try {
+		while (received < maxBytes) {
+			const { done, value } = await reader.read();
+			if (done) break;
+
+			const chunk = value.subarray(0, maxBytes - received);
+			received += chunk.byteLength;
+			html += decoder.decode(chunk, { stream: true });
+
+			const end = html.search(HEAD_END);
+			if (end !== -1) return html.slice(0, end);
+		}
+		return html;
+	} finally {
+		reader.cancel().catch(() => {});
+	}
+}
+
+
+function parseAttributes(tag: string): Record<string, string> {
+	const attributes: Record<string, string> = {};
+	const pattern = /([^\s=/>"']+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>"']+)))?/g;
+
+	for (const match of tag.matchAll(pattern)) {
+		const [, name, doubleQuoted, singleQuoted, unquoted] = match;
+		if (!name) continue;
+		attributes[name.toLowerCase()] = decodeEntities(doubleQuoted ?? singleQuoted ?? unquoted ?? '');
+	}
+
+	return attributes;
+}
+
+
+export function findTags(html: string, tagName: string): Array<Record<string, string>> {
+	const pattern = new RegExp(`<${tagName}\\b([^>]*)>`, 'gi');
+	return Array.from(html.matchAll(pattern), (match) => parseAttributes(match[1] ?? ''));
+}
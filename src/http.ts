@@ -0,0 +1,48 @@
+import type { HttpRequestOptions, Platform } from './types.js';
+import { guardedFetch } from './guard.js';
+import { getRetryPolicy, withRetries } from './retry.js';
+
+
+function combineSignals(signals: Array<AbortSignal | null | undefined>): AbortSignal | undefined {
+	const active = signals.filter((signal): signal is AbortSignal => Boolean(signal));
+	return active.length > 1 ? AbortSignal.any(active) : active[0];
+}
+
+
+export function withDeadline(options: HttpRequestOptions = {}, platform?: Platform): HttpRequestOptions {
+	const { timeoutMs, ...rest } = options;
+	const request = platform ? { ...rest, platform } : rest;
+	if (timeoutMs === undefined) return request;
+
+	return { ...request, signal: combineSignals([options.signal, AbortSignal.timeout(timeoutMs)]) };
+}
+
+
+export function fetchWithOptions(url: string, init: RequestInit, options: HttpRequestOptions = {}): Promise<Response> {
+	const signal = combineSignals([options.signal, init.signal]);
+
+	return withRetries(
+		() => {
+			const attemptSignal = combineSignals([
+				signal,
+				options.requestTimeoutMs === undefined ? undefined : AbortSignal.timeout(options.requestTimeoutMs),
+			]);
+			return guardedFetch(url, attemptSignal ? { ...init, signal: attemptSignal } : init, options.client);
+		},
+		init.method ?? 'GET',
+		getRetryPolicy(options.platform),
+		signal,
+	);
+}
+
+
+export function abortable<T>(promise: Promise<T>, signal: AbortSignal | undefined): Promise<T> {
+	if (!signal) return promise;
+	if (signal.aborted) return Promise.reject(signal.reason);
+
+	return new Promise<T>((resolve, reject) => {
+		const onAbort = () => reject(signal.reason);
+		signal.addEventListener('abort', onAbort, { once: true });
+		promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+	});
+}
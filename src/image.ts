@@ -0,0 +1,170 @@
+import type { ImageFormat, ImageInfo, RequestOptions } from './types.js';
+import { fetchWithOptions } from './http.js';
+
+
+const DEFAULT_PROBE_BYTES = 32 * 1024;
+
+
+const MIME_TYPES: Record<Exclude<ImageFormat, 'unknown'>, string> = {
+	jpeg: 'image/jpeg',
+	png: 'image/png',
+	webp: 'image/webp',
+	avif: 'image/avif',
+	gif: 'image/gif',
+};
+
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+
+function ascii(bytes: Uint8Array, offset: number, length: number): string {
+	return String.fromCharCode(...bytes.subarray(offset, offset + length));
+}
+
+
+function info(format: Exclude<ImageFormat, 'unknown'>, width: number, height: number): ImageInfo | null {
+	if (width <= 0 || height <= 0) return null;
+	return { width, height, format, mimeType: MIME_TYPES[format] };
+}
+
+
+function readPng(bytes: Uint8Array, view: DataView): ImageInfo | null {
+	if (bytes.length < 24 || ascii(bytes, 12, 4) !== 'IHDR') return null;
+	return info('png', view.getUint32(16), view.getUint32(20));
+}
+
+
+function readGif(bytes: Uint8Array, view: DataView): ImageInfo | null {
+	if (bytes.length < 10) return null;
+	return info('gif', view.getUint16(6, true), view.getUint16(8, true));
+}
+
+
+function readJpeg(bytes: Uint8Array, view: DataView): ImageInfo | null {
+	let offset = 2;
+
+	while (offset + 4 <= bytes.length) {
+		if (bytes[offset] !== 0xff) return null;
+
+		const marker = bytes[offset + 1] ?? 0;
+		if (marker === 0xff) {
+			offset++;
+			continue;
+		}
+		if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+			offset += 2;
+			continue;
+		}
+
+		const isFrameHeader = marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+		if (isFrameHeader) {
+			if (offset + 9 > bytes.length) return null;
+			return info('jpeg', view.getUint16(offset + 7), view.getUint16(offset + 5));
+		}
+
+		offset += 2 + view.getUint16(offset + 2);
+	}
+
+	return null;
+}
+
+
+function readWebp(bytes: Uint8Array, view: DataView): ImageInfo | null {
+	if (bytes.length < 30) return null;
+
+	const chunk = ascii(bytes, 12, 4);
+	if (chunk === 'VP8 ') {
+		if (bytes[23] !== 0x9d || bytes[24] !== 0x01 || bytes[25] !== 0x2a) return null;
+		return info('webp', view.getUint16(26, true) & 0x3fff, view.getUint16(28, true) & 0x3fff);
+	}
+	if (chunk === 'VP8L') {
+		if (bytes[20] !== 0x2f) return null;
+		const bits = view.getUint32(21, true);
+		return info('webp', (bits & 0x3fff) + 1, ((bits >> 14) & 0x3fff) + 1);
+	}
+	if (chunk === 'VP8X') {
+		const width = (bytes[24] ?? 0) | ((bytes[25] ?? 0) << 8) | ((bytes[26] ?? 0) << 16);
+		const height = (bytes[27] ?? 0) | ((bytes[28] ?? 0) << 8) | ((bytes[29] ?? 0) << 16);
+		return info('webp', width + 1, height + 1);
+	}
+	return null;
+}
+
+
+function readAvif(bytes: Uint8Array, view: DataView): ImageInfo | null {
+	const ftypSize = view.getUint32(0);
+	const brands: string[] = [];
+	for (let offset = 8; offset + 4 <= Math.min(ftypSize, bytes.length); offset += 4) {
+		if (offset !== 12) brands.push(ascii(bytes, offset, 4));
+	}
+	if (!brands.includes('avif') && !brands.includes('avis')) return null;
+
+	let best: ImageInfo | null = null;
+	for (let offset = ftypSize; offset + 16 <= bytes.length; offset++) {
+		if (ascii(bytes, offset, 4) !== 'ispe') continue;
+
+		const candidate = info('avif', view.getUint32(offset + 8), view.getUint32(offset + 12));
+		if (candidate && (!best || candidate.width * candidate.height > best.width * best.height)) {
+			best = candidate;
+		}
+	}
+	return best;
+}
+
+
+export function readImageInfo(bytes: Uint8Array): ImageInfo | null {
+	if (bytes.length < 12) return null;
+
+	const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+	if (PNG_SIGNATURE.every((byte, i) => bytes[i] === byte)) return readPng(bytes, view);
+	if (bytes[0] === 0xff && bytes[1] === 0xd8) return readJpeg(bytes, view);
+	if (ascii(bytes, 0, 4) === 'GIF8') return readGif(bytes, view);
+	if (ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 4) === 'WEBP') return readWebp(bytes, view);
+	if (ascii(bytes, 4, 4) === 'ftyp') return readAvif(bytes, view);
+	return null;
+}
+
+
+export async function readImageHeader(res: Response, maxBytes = DEFAULT_PROBE_BYTES): Promise<ImageInfo | null> {
+	if (!res.body) return null;
+
+	const reader = res.body.getReader();
+	let bytes = new Uint8Array(0);
+
+	try {
+		while (bytes.length < maxBytes) {
+			const { done, value } = await reader.read();
+			if (done) break;
+
+			const chunk = value.subarray(0, maxBytes - bytes.length);
+			const next = new Uint8Array(bytes.length + chunk.length);
+			next.set(bytes);
+			next.set(chunk, bytes.length);
+			bytes = next;
+
+			const parsed = readImageInfo(bytes);
+			if (parsed) return parsed;
+		}
+		return null;
+	} finally {
+		reader.cancel().catch(() => {});
+	}
+}
+
+
+export function imageRangeHeaders(maxBytes = DEFAULT_PROBE_BYTES): Record<string, string> {
+	return { Range: `bytes=0-${maxBytes - 1}` };
+}
+
+
+export async function probeImage(
+	url: string,
+	maxBytes = DEFAULT_PROBE_BYTES,
+	options: RequestOptions = {},
+): Promise<ImageInfo | null> {
+	const res = await fetchWithOptions(url, { headers: imageRangeHeaders(maxBytes) }, options);
+	if (!res.ok) return null;
+
+	return readImageHeader(res, maxBytes);
+}
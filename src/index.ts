@@ -1,16 +1,128 @@
 
-export type { ThumbnailResult, CacheEntry, Platform } from './types.js';
+export type {
+	ThumbnailResult,
+	ThumbnailVariant,
+	ThumbnailFailure,
+	ThumbnailFailureReason,
+	ThumbnailOutcome,
+	ThumbnailAspect,
+	ThumbnailRequestOptions,
+	RequestOptions,
+	RetryPolicy,
+	RetryOptions,
+	ImageFormat,
+	ImageInfo,
+	CacheEntry,
+	CacheStats,
+	ThumbnailCacheStore,
+	FileCacheStoreOptions,
+	SqliteCacheStore,
+	SqliteCacheStoreOptions,
+	ThumbnailResolver,
+	ThumbnailResolverOptions,
+	Platform,
+	VideoRef,
+	ThumbnailProvider,
+	PeerTubeOptions,
+	YouTubeOptions,
+	TwitchOptions,
+	OEmbedEndpoint,
+	OEmbedProviderOptions,
+	OpenGraphProviderOptions,
+	FrameProviderOptions,
+	ProviderMatch,
+	RequestGuardOptions,
+	HttpClientOptions,
+	FetchLike,
+	ResolvedAddress,
+} from './types.js';
 
 
-export { detectPlatform, extractYouTubeId } from './platforms.js';
+export {
+	extractYouTubeId,
+	extractDailymotionId,
+	parseVimeoUrl,
+	parseTwitchUrl,
+	parseStartTime,
+} from './platforms.js';
+
+
+export {
+	detectPlatform,
+	parseVideoUrl,
+	normalizeVideoUrl,
+	videoRefKey,
+	registerThumbnailProvider,
+	unregisterThumbnailProvider,
+	getThumbnailProviders,
+	resetThumbnailProviders,
+} from './providers.js';
+
+
+export {
+	configurePeerTube,
+	resetPeerTubeConfig,
+	verifyPeerTubeInstance,
+} from './peertube.js';
+
+
+export { createOEmbedProvider, discoverOEmbedUrl } from './oembed.js';
+
+
+export { createOpenGraphProvider, resolveOpenGraphImage, scrapeOpenGraphImage } from './opengraph.js';
+
+
+export { createFrameProvider, extractVideoFrame, resolveVideoFrame } from './frames.js';
+
+
+export { configureHttpClient, resetHttpClient } from './client.js';
+
+
+export { configureRetries, resetRetryConfig } from './retry.js';
+
+
+export { configureYouTube, resetYouTubeConfig } from './youtube.js';
+
+
+export { configureTwitch, resetTwitchConfig } from './twitch.js';
+
+
+export {
+	BlockedRequestError,
+	configureRequestGuard,
+	resetRequestGuard,
+	assertRequestAllowed,
+	isBlockedAddress,
+} from './guard.js';
+
+
+export {
+	fetchYouTubeThumbnail,
+	fetchPeerTubeThumbnail,
+	fetchVimeoThumbnail,
+	fetchDailymotionThumbnail,
+	fetchTwitchThumbnail,
+	fetchOEmbedThumbnail,
+} from './fetchers.js';
+
+
+export { createMemoryCacheStore, createFileCacheStore } from './store.js';
+
+
+export { createSqliteCacheStore } from './sqlite.js';
+
+
+export { probeImage, readImageInfo } from './image.js';
 
 
-export { fetchYouTubeThumbnail, fetchPeerTubeThumbnail, fetchVimeoThumbnail } from './fetchers.js';
+export { buildSrcset, guessImageFormat, imageAspect, selectThumbnailVariant } from './variants.js';
 
 
 export {
 	CACHE_TTL,
+	createThumbnailResolver,
 	getVideoThumbnail,
+	resolveVideoThumbnail,
 	clearThumbnailCache,
 	getCacheStats,
 	pruneExpiredCache,
@@ -0,0 +1,90 @@
+import type {
+	OEmbedEndpoint,
+	OEmbedProviderOptions,
+	RequestOptions,
+	ThumbnailFailure,
+	ThumbnailProvider,
+} from './types.js';
+import { resolveOEmbedThumbnail } from './fetchers.js';
+import { fetchWithOptions, withDeadline } from './http.js';
+import { findTags, readHtmlHead } from './html.js';
+import { failureFromError, failureFromStatus, isThumbnailFailure, thumbnailFailure } from './outcome.js';
+
+
+const OEMBED_JSON_TYPE = 'application/json+oembed';
+
+
+function schemeToPattern(scheme: string): RegExp {
+	const escaped = scheme.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+	return new RegExp(`^${escaped}$`, 'i');
+}
+
+
+function matchesEndpoint(endpoint: OEmbedEndpoint, url: string): boolean {
+	return endpoint.schemes.some((scheme) => schemeToPattern(scheme).test(url));
+}
+
+
+function buildEndpointUrl(endpoint: OEmbedEndpoint, url: string): string {
+	const base = endpoint.url.replace('{format}', 'json');
+	const separator = base.includes('?') ? '&' : '?';
+	return `${base}${separator}format=json&url=${encodeURIComponent(url)}`;
+}
+
+
+async function discoverOEmbed(pageUrl: string, options: RequestOptions): Promise<string | ThumbnailFailure> {
+	const request = withDeadline(options, 'oembed');
+
+	try {
+		const res = await fetchWithOptions(
+			pageUrl,
+			{ headers: { Accept: 'text/html,application/xhtml+xml' } },
+			request,
+		);
+		if (!res.ok) return failureFromStatus(res.status);
+
+		const contentType = res.headers?.get('content-type');
+		if (contentType && !/html/i.test(contentType)) return thumbnailFailure('unsupported');
+
+		const head = await readHtmlHead(res);
+		const link = findTags(head, 'link').find(
+			(attrs) =>
+				attrs.type?.toLowerCase() === OEMBED_JSON_TYPE &&
+				(attrs.rel ?? '').toLowerCase().split(/\s+/).includes('alternate') &&
+				attrs.href,
+		);
+
+		return link?.href ? new URL(link.href, pageUrl).href : thumbnailFailure('unsupported');
+	} catch (error) {
+		return failureFromError(error, request.signal);
+	}
+}
+
+
+export async function discoverOEmbedUrl(pageUrl: string, options: RequestOptions = {}): Promise<string | null> {
+	const discovered = await discoverOEmbed(pageUrl, options);
+	return isThumbnailFailure(discovered) ? null : discovered;
+}
+
+
+export function createOEmbedProvider(options: OEmbedProviderOptions = {}): ThumbnailProvider {
+	const endpoints = options.endpoints ?? [];
+	const discover = options.discover ?? true;
+
+	return {
+		platform: 'oembed',
+		fallback: true,
+		matches: (url) =>
+			(url.protocol === 'http:' || url.protocol === 'https:') &&
+			(discover || endpoints.some((endpoint) => matchesEndpoint(endpoint, url.href))),
+		extractId: (url) => `${url.pathname}${url.search}`,
+		resolve: async (ref, requestOptions = {}) => {
+			const request = withDeadline(requestOptions, 'oembed');
+			const endpoint = endpoints.find((e) => matchesEndpoint(e, ref.url));
+			const oembedUrl = endpoint ? buildEndpointUrl(endpoint, ref.url) : await discoverOEmbed(ref.url, request);
+			if (isThumbnailFailure(oembedUrl)) return oembedUrl;
+
+			return resolveOEmbedThumbnail(oembedUrl, 'oembed', request);
+		},
+	};
+}
@@ -0,0 +1,113 @@
+import type {
+	ImageFormat,
+	OpenGraphProviderOptions,
+	RequestOptions,
+	ThumbnailFailure,
+	ThumbnailProvider,
+	ThumbnailResult,
+} from './types.js';
+import { fetchWithOptions, withDeadline } from './http.js';
+import { findTags, readHtmlHead } from './html.js';
+import { failureFromError, failureFromStatus, successOrNull, thumbnailFailure } from './outcome.js';
+import { toVariant } from './variants.js';
+
+
+const IMAGE_KEYS = ['og:image:secure_url', 'og:image:url', 'og:image', 'twitter:image', 'twitter:image:src'];
+
+
+function readMetaProperties(head: string): Map<string, string> {
+	const properties = new Map<string, string>();
+
+	for (const attrs of findTags(head, 'meta')) {
+		const key = (attrs.property ?? attrs.name)?.toLowerCase();
+		if (!key || attrs.content === undefined || properties.has(key)) continue;
+		properties.set(key, attrs.content.trim());
+	}
+
+	return properties;
+}
+
+
+function toDimension(value: string | undefined): number {
+	const parsed = Number.parseInt(value ?? '', 10);
+	return Number.isFinite(parsed) && parsed > 0 ? parsed : 0;
+}
+
+
+function isVideoPage(properties: Map<string, string>): boolean {
+	return (
+		properties.has('og:video') ||
+		properties.has('og:video:url') ||
+		properties.has('og:video:secure_url') ||
+		(properties.get('og:type') ?? '').startsWith('video') ||
+		properties.get('twitter:card') === 'player'
+	);
+}
+
+
+export async function scrapeOpenGraphImage(
+	pageUrl: string,
+	options: OpenGraphProviderOptions = {},
+	requestOptions: RequestOptions = {},
+): Promise<ThumbnailResult | null> {
+	return successOrNull(await resolveOpenGraphImage(pageUrl, options, requestOptions));
+}
+
+
+export async function resolveOpenGraphImage(
+	pageUrl: string,
+	options: OpenGraphProviderOptions = {},
+	requestOptions: RequestOptions = {},
+): Promise<ThumbnailResult | ThumbnailFailure> {
+	const request = withDeadline(requestOptions, 'generic');
+
+	try {
+		const res = await fetchWithOptions(
+			pageUrl,
+			{ headers: { Accept: 'text/html,application/xhtml+xml' } },
+			request,
+		);
+		if (!res.ok) return failureFromStatus(res.status);
+
+		const contentType = res.headers?.get('content-type');
+		if (contentType && !/html/i.test(contentType)) return thumbnailFailure('unsupported');
+
+		const properties = readMetaProperties(await readHtmlHead(res, options.maxBytes));
+		if (options.requireVideo && !isVideoPage(properties)) return thumbnailFailure('unsupported');
+
+		const key = IMAGE_KEYS.find((k) => properties.get(k));
+		if (!key) return thumbnailFailure('not_found');
+
+		const imageUrl = new URL(properties.get(key) ?? '', pageUrl);
+		if (imageUrl.protocol !== 'http:' && imageUrl.protocol !== 'https:') return thumbnailFailure('invalid_response');
+
+		const fromOpenGraph = key.startsWith('og:');
+		const width = fromOpenGraph ? toDimension(properties.get('og:image:width')) : 0;
+		const height = fromOpenGraph ? toDimension(properties.get('og:image:height')) : 0;
+		const declared = properties.get('og:image:type')?.match(/^image\/(jpeg|png|webp|avif|gif)$/i)?.[1];
+		const variant = toVariant(imageUrl.href, width, height, declared?.toLowerCase() as ImageFormat | undefined);
+
+		return {
+			url: imageUrl.href,
+			width,
+			height,
+			format: variant.format,
+			platform: 'generic',
+			cached: false,
+			variants: [variant],
+		};
+	} catch (error) {
+		return failureFromError(error, request.signal);
+	}
+}
+
+
+export function createOpenGraphProvider(options: OpenGraphProviderOptions = {}): ThumbnailProvider {
+	return {
+		platform: 'generic',
+		fallback: true,
+		matches: (url) => url.protocol === 'http:' || url.protocol === 'https:',
+		extractId: (url) => `${url.pathname}${url.search}`,
+		resolve: (ref, requestOptions) => resolveOpenGraphImage(ref.url, options, requestOptions),
+	};
+}
@@ -0,0 +1,53 @@
+import type { ThumbnailFailure, ThumbnailFailureReason, ThumbnailResult } from './types.js';
+import { BlockedRequestError } from './guard.js';
+
+
+const FAILURE_PRIORITY: ThumbnailFailureReason[] = [
+	'rate_limited',
+	'network',
+	'private',
+	'invalid_response',
+	'not_found',
+	'unsupported',
+];
+
+
+export function thumbnailFailure(
+	reason: ThumbnailFailureReason,
+	details: Pick<ThumbnailFailure, 'status' | 'cause'> = {},
+): ThumbnailFailure {
+	return { ok: false, reason, ...details };
+}
+
+
+export function isThumbnailFailure(value: unknown): value is ThumbnailFailure {
+	return typeof value === 'object' && value !== null && (value as { ok?: unknown }).ok === false;
+}
+
+
+export function successOrNull(value: ThumbnailResult | ThumbnailFailure | null): ThumbnailResult | null {
+	return value && !isThumbnailFailure(value) ? value : null;
+}
+
+
+export function failureFromStatus(status: number): ThumbnailFailure {
+	if (status === 404 || status === 410) return thumbnailFailure('not_found', { status });
+	if (status === 401 || status === 403) return thumbnailFailure('private', { status });
+	if (status === 429) return thumbnailFailure('rate_limited', { status });
+	if (status >= 500 || status === 408 || status === 425) return thumbnailFailure('network', { status });
+	return thumbnailFailure('invalid_response', { status });
+}
+
+
+export function failureFromError(error: unknown, signal?: AbortSignal): ThumbnailFailure {
+	signal?.throwIfAborted();
+
+	if (error instanceof BlockedRequestError) return thumbnailFailure('unsupported', { cause: error });
+	if (error instanceof SyntaxError) return thumbnailFailure('invalid_response', { cause: error });
+	return thumbnailFailure('network', { cause: error });
+}
+
+
+export function mostRelevantFailure(failures: ThumbnailFailure[]): ThumbnailFailure | undefined {
+	return [...failures].sort((a, b) => FAILURE_PRIORITY.indexOf(a.reason) - FAILURE_PRIORITY.indexOf(b.reason))[0];
+}
@@ -0,0 +1,161 @@
+import type { PeerTubeOptions, RequestOptions } from './types.js';
+import { fetchWithOptions } from './http.js';
+
+
+const NODEINFO_SCHEMA = /^https?:\/\/nodeinfo\.diaspora\.software\/ns\/schema\/2\.\d+$/;
+
+
+const DEFAULT_VERIFICATION_TTL = 1000 * 60 * 60 * 24;
+
+
+const DEFAULT_MAX_VERIFIED_INSTANCES = 1000;
+
+
+interface InstanceVerification {
+	verified: boolean;
+	timestamp: number;
+}
+
+
+const allowedInstances = new Set<string>();
+
+
+let verifyUnknownInstances = false;
+
+
+let verificationTtl = DEFAULT_VERIFICATION_TTL;
+
+
+let maxVerifiedInstances = DEFAULT_MAX_VERIFIED_INSTANCES;
+
+
+const verifiedInstances = new Map<string, InstanceVerification>();
+
+
+const pendingVerifications = new Map<string, Promise<boolean>>();
+
+
+function toInstanceHost(instance: string): string {
+	const value = instance.trim().toLowerCase();
+	try {
+		return new URL(value.includes('://') ? value : `https://${value}`).host;
+	} catch {
+		return value;
+	}
+}
+
+
+export function configurePeerTube(options: PeerTubeOptions): void {
+	if (options.instances) {
+		allowedInstances.clear();
+		for (const instance of options.instances) {
+			allowedInstances.add(toInstanceHost(instance));
+		}
+	}
+	if (options.verify !== undefined) {
+		verifyUnknownInstances = options.verify;
+	}
+	if (options.verificationTtlMs !== undefined) {
+		verificationTtl = options.verificationTtlMs;
+	}
+	if (options.maxVerifiedInstances !== undefined) {
+		maxVerifiedInstances = Math.max(0, Math.floor(options.maxVerifiedInstances));
+	}
+}
+
+
+export function resetPeerTubeConfig(): void {
+	allowedInstances.clear();
+	verifyUnknownInstances = false;
+	verificationTtl = DEFAULT_VERIFICATION_TTL;
+	maxVerifiedInstances = DEFAULT_MAX_VERIFIED_INSTANCES;
+	verifiedInstances.clear();
+	pendingVerifications.clear();
+}
+
+
+export function isAllowedPeerTubeInstance(url: URL): boolean {
+	return allowedInstances.has(url.host.toLowerCase());
+}
+
+
+function knownVerification(origin: string): boolean | undefined {
+	const entry = verifiedInstances.get(origin);
+	if (!entry) return undefined;
+
+	if (Date.now() - entry.timestamp >= verificationTtl) {
+		verifiedInstances.delete(origin);
+		return undefined;
+	}
+	return entry.verified;
+}
+
+
+function rememberVerification(origin: string, verified: boolean): void {
+	verifiedInstances.delete(origin);
+	if (maxVerifiedInstances === 0) return;
+
+	while (verifiedInstances.size >= maxVerifiedInstances) {
+		const oldest = verifiedInstances.keys().next().value;
+		if (oldest === undefined) break;
+		verifiedInstances.delete(oldest);
+	}
+	verifiedInstances.set(origin, { verified, timestamp: Date.now() });
+}
+
+
+export function mayBePeerTubeInstance(url: URL): boolean {
+	if (isAllowedPeerTubeInstance(url)) return true;
+	return verifyUnknownInstances && knownVerification(url.origin) !== false;
+}
+
+
+async function fetchJson(url: string, options: RequestOptions): Promise<Record<string, unknown> | null> {
+	const res = await fetchWithOptions(url, { headers: { Accept: 'application/json' } }, { ...options, platform: 'peertube' });
+	if (!res.ok) return null;
+	return (await res.json()) as Record<string, unknown>;
+}
+
+
+async function readNodeInfoSoftware(origin: string, options: RequestOptions): Promise<string | null> {
+	const index = await fetchJson(`${origin}/.well-known/nodeinfo`, options);
+	const links = Array.isArray(index?.links) ? (index.links as Array<Record<string, unknown>>) : [];
+
+	const link = links.find((l) => typeof l.rel === 'string' && NODEINFO_SCHEMA.test(l.rel));
+	if (typeof link?.href !== 'string') return null;
+
+	const href = new URL(link.href, origin);
+	if (href.origin !== origin) return null;
+
+	const nodeinfo = await fetchJson(href.href, options);
+	const software = nodeinfo?.software as Record<string, unknown> | undefined;
+	return typeof software?.name === 'string' ? software.name.toLowerCase() : null;
+}
+
+
+export async function verifyPeerTubeInstance(origin: string, options: RequestOptions = {}): Promise<boolean> {
+	const known = knownVerification(origin);
+	if (known !== undefined) return known;
+
+	const pending = pendingVerifications.get(origin);
+	if (pending) return pending;
+
+	const verification = readNodeInfoSoftware(origin, options)
+		.then((software) => {
+			const verified = software === 'peertube';
+			if (software !== null) rememberVerification(origin, verified);
+			return verified;
+		})
+		.catch(() => false)
+		.finally(() => pendingVerifications.delete(origin));
+
+	pendingVerifications.set(origin, verification);
+	return verification;
+}
+
+
+export async function isTrustedPeerTubeInstance(url: URL, options: RequestOptions = {}): Promise<boolean> {
+	if (isAllowedPeerTubeInstance(url)) return true;
+	if (!verifyUnknownInstances) return false;
+	return verifyPeerTubeInstance(url.origin, options);
+}
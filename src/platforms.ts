@@ -1,25 +1,201 @@
-import type { Platform } from './types.js';
+const YOUTUBE_DOMAINS = ['youtube.com', 'youtube-nocookie.com', 'youtu.be'];
 
 
+const YOUTUBE_ID_PATTERN = /^[A-Za-z0-9_-]{11}$/;
 
 
+const VIMEO_ID_PATTERN = /^\d+$/;
 
 
+const VIMEO_HASH_PATTERN = /^[0-9a-f]+$/i;
 
-export function detectPlatform(url: string): Platform | null {
+
+const DAILYMOTION_ID_PATTERN = /^x[0-9a-z]+$/i;
+
+
+const TWITCH_VIDEO_ID_PATTERN = /^\d+$/;
+
+
+const TWITCH_CLIP_SLUG_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+
+function isHostOf(hostname: string, domain: string): boolean {
+	const host = hostname.toLowerCase();
+	return host === domain || host.endsWith(`.${domain}`);
+}
+
+
+export function isYouTubeHost(hostname: string): boolean {
+	return YOUTUBE_DOMAINS.some((domain) => isHostOf(hostname, domain));
+}
+
+
+export function isValidYouTubeId(id: string): boolean {
+	return YOUTUBE_ID_PATTERN.test(id);
+}
+
+
+export function isVimeoHost(hostname: string): boolean {
+	return isHostOf(hostname, 'vimeo.com');
+}
+
+
+export function isDailymotionHost(hostname: string): boolean {
+	return isHostOf(hostname, 'dailymotion.com') || isHostOf(hostname, 'dai.ly');
+}
+
+
+export function isTwitchHost(hostname: string): boolean {
+	return isHostOf(hostname, 'twitch.tv');
+}
+
+
+export function isPeerTubePath(pathname: string): boolean {
+	return pathname.includes('/videos/watch/') || pathname.includes('/w/');
+}
+
+
+export function extractYouTubeId(url: string): string | null {
 	try {
 		const urlObj = new URL(url);
-		const hostname = urlObj.hostname.toLowerCase();
+		if (!isYouTubeHost(urlObj.hostname)) return null;
+
+		const candidate = findYouTubeIdCandidate(urlObj);
+		return candidate && isValidYouTubeId(candidate) ? candidate : null;
+	} catch {
+		return null;
+	}
+}
+
 
-		if (hostname.includes('youtube.com') || hostname.includes('youtu.be')) {
-			return 'youtube';
+function findYouTubeIdCandidate(url: URL): string | null {
+	const [first, second] = url.pathname.split('/').filter(Boolean);
+
+	if (isHostOf(url.hostname, 'youtu.be')) {
+		return first ?? null;
+	}
+
+	switch (first) {
+		case 'watch':
+			return url.searchParams.get('v');
+		case 'embed':
+			return second === 'videoseries' ? null : (second ?? null);
+		case 'v':
+		case 'e':
+		case 'shorts':
+		case 'live':
+			return second ?? null;
+		case 'attribution_link': {
+			const target = url.searchParams.get('u');
+			return target ? findYouTubeIdCandidate(new URL(target, url.origin)) : null;
 		}
-		if (hostname.includes('vimeo.com')) {
-			return 'vimeo';
+		default:
+			return null;
+	}
+}
+
+
+export function extractPeerTubeId(url: string): string | null {
+	const match = url.match(/\/(?:videos\/watch|w)\/([a-zA-Z0-9-]+)/);
+	return match?.[1] ?? null;
+}
+
+
+export function parseVimeoUrl(url: string): { id: string; hash?: string } | null {
+	try {
+		const urlObj = new URL(url);
+		if (!isVimeoHost(urlObj.hostname)) return null;
+
+		const segments = urlObj.pathname.split('/').filter(Boolean);
+		const index = findVimeoIdIndex(urlObj.hostname, segments);
+		const id = index === -1 ? undefined : segments[index];
+		if (!id || !VIMEO_ID_PATTERN.test(id)) return null;
+
+		const hash = urlObj.searchParams.get('h') ?? segments[index + 1];
+		return hash && VIMEO_HASH_PATTERN.test(hash) ? { id, hash } : { id };
+	} catch {
+		return null;
+	}
+}
+
+
+function findVimeoIdIndex(hostname: string, segments: string[]): number {
+	const [first] = segments;
+
+	if (isHostOf(hostname, 'player.vimeo.com')) {
+		return first === 'video' ? 1 : -1;
+	}
+
+	switch (first) {
+		case 'channels':
+			return 2;
+		case 'groups':
+			return segments[2] === 'videos' ? 3 : -1;
+		case 'showcase':
+		case 'album':
+			return segments[2] === 'video' ? 3 : -1;
+		case 'video':
+			return 1;
+		default:
+			return 0;
+	}
+}
+
+
+export function extractVimeoId(url: string): string | null {
+	return parseVimeoUrl(url)?.id ?? null;
+}
+
+
+export function extractDailymotionId(url: string): string | null {
+	try {
+		const urlObj = new URL(url);
+		if (!isDailymotionHost(urlObj.hostname)) return null;
+
+		const segments = urlObj.pathname.split('/').filter(Boolean);
+		let candidate: string | null | undefined;
+
+		if (isHostOf(urlObj.hostname, 'dai.ly')) {
+			candidate = segments[0];
+		} else if (segments[0] === 'video') {
+			candidate = segments[1];
+		} else if (segments[0] === 'embed' && segments[1] === 'video') {
+			candidate = segments[2];
+		} else {
+			candidate = urlObj.searchParams.get('video');
 		}
-		
-		if (url.includes('/videos/watch/') || url.includes('/w/')) {
-			return 'peertube';
+
+		const id = candidate?.split('_')[0];
+		return id && DAILYMOTION_ID_PATTERN.test(id) ? id : null;
+	} catch {
+		return null;
+	}
+}
+
+
+export function parseTwitchUrl(url: string): { kind: 'video' | 'clip'; id: string } | null {
+	try {
+		const urlObj = new URL(url);
+		if (!isTwitchHost(urlObj.hostname)) return null;
+
+		const segments = urlObj.pathname.split('/').filter(Boolean);
+
+		if (isHostOf(urlObj.hostname, 'clips.twitch.tv')) {
+			const slug = segments[0] === 'embed' ? urlObj.searchParams.get('clip') : segments[0];
+			return slug && TWITCH_CLIP_SLUG_PATTERN.test(slug) ? { kind: 'clip', id: slug } : null;
+		}
+
+		if (isHostOf(urlObj.hostname, 'player.twitch.tv')) {
+			const videoId = urlObj.searchParams.get('video')?.replace(/^v/, '');
+			return videoId && TWITCH_VIDEO_ID_PATTERN.test(videoId) ? { kind: 'video', id: videoId } : null;
+		}
+
+		if (segments[0] === 'videos' && segments[1] && TWITCH_VIDEO_ID_PATTERN.test(segments[1])) {
+			return { kind: 'video', id: segments[1] };
+		}
+
+		if (segments[1] === 'clip' && segments[2] && TWITCH_CLIP_SLUG_PATTERN.test(segments[2])) {
+			return { kind: 'clip', id: segments[2] };
 		}
 
 		return null;
@@ -29,26 +205,40 @@ export function detectPlatform(url: string): Platform | null {
 }
 
 
+function parseTimestamp(value: string): number | undefined {
+	const trimmed = value.trim().replace(/^npt:/, '');
 
+	if (/^\d+(?:\.\d+)?s?$/.test(trimmed)) {
+		return Math.floor(parseFloat(trimmed));
+	}
 
+	const clock = trimmed.match(/^(?:(\d+):)?(\d{1,2}):(\d{1,2})(?:\.\d+)?$/);
+	if (clock) {
+		const [, h = '0', m = '0', sec = '0'] = clock;
+		return Number(h) * 3600 + Number(m) * 60 + Number(sec);
+	}
 
+	const units = trimmed.match(/^(?:(\d+)h)?(?:(\d+)m)?(?:(\d+)s)?$/);
+	if (units && (units[1] || units[2] || units[3])) {
+		const [, h = '0', m = '0', sec = '0'] = units;
+		return Number(h) * 3600 + Number(m) * 60 + Number(sec);
+	}
 
+	return undefined;
+}
 
 
+export function parseStartTime(url: URL): number | undefined {
+	const fromQuery = url.searchParams.get('t') ?? url.searchParams.get('start');
+	if (fromQuery) {
+		const seconds = parseTimestamp(fromQuery);
+		if (seconds !== undefined) return seconds;
+	}
 
-export function extractYouTubeId(url: string): string | null {
-	const patterns = [
-		/(?:youtube\.com\/watch\?v=|youtu\.be\/|youtube\.com\/embed\/)([^&?/]+)/,
-		/youtube\.com\/v\/([^&?/]+)/,
-		/youtube\.com\/shorts\/([^&?/]+)/,
-	];
-
-	for (const pattern of patterns) {
-		const match = url.match(pattern);
-		if (match?.[1]) {
-			return match[1];
-		}
+	const fragment = new URLSearchParams(url.hash.slice(1)).get('t');
+	if (fragment) {
+		return parseTimestamp(fragment.split(',')[0] ?? '');
 	}
 
-	return null;
+	return undefined;
 }
@@ -0,0 +1,191 @@
+import type { Platform, ProviderMatch, ThumbnailProvider, VideoRef } from './types.js';
+import {
+	isYouTubeHost,
+	isVimeoHost,
+	isDailymotionHost,
+	isTwitchHost,
+	isPeerTubePath,
+	extractYouTubeId,
+	extractPeerTubeId,
+	extractVimeoId,
+	extractDailymotionId,
+	parseVimeoUrl,
+	parseTwitchUrl,
+	parseStartTime,
+} from './platforms.js';
+import {
+	resolveYouTubeThumbnail,
+	resolvePeerTubeThumbnail,
+	resolveVimeoThumbnail,
+	resolveDailymotionThumbnail,
+	resolveTwitchThumbnail,
+} from './fetchers.js';
+import { mayBePeerTubeInstance } from './peertube.js';
+
+
+const providers: ThumbnailProvider[] = [];
+
+
+export const youtubeProvider: ThumbnailProvider = {
+	platform: 'youtube',
+	instance: 'youtube.com',
+	matches: (url) => isYouTubeHost(url.hostname),
+	extractId: (url) => extractYouTubeId(url.href),
+	describe: (url) => ({
+		playlistId: url.searchParams.get('list') ?? undefined,
+		isShort: url.pathname.startsWith('/shorts/'),
+		isLive: url.pathname.startsWith('/live/'),
+	}),
+	resolve: (ref, options) => resolveYouTubeThumbnail(ref.url, options),
+};
+
+
+export const vimeoProvider: ThumbnailProvider = {
+	platform: 'vimeo',
+	instance: 'vimeo.com',
+	matches: (url) => isVimeoHost(url.hostname),
+	extractId: (url) => extractVimeoId(url.href),
+	describe: (url) => ({ unlistedHash: parseVimeoUrl(url.href)?.hash }),
+	resolve: (ref, options) => resolveVimeoThumbnail(ref.url, options),
+};
+
+
+export const dailymotionProvider: ThumbnailProvider = {
+	platform: 'dailymotion',
+	instance: 'dailymotion.com',
+	matches: (url) => isDailymotionHost(url.hostname),
+	extractId: (url) => extractDailymotionId(url.href),
+	resolve: (ref, options) => resolveDailymotionThumbnail(ref.url, options),
+};
+
+
+export const twitchProvider: ThumbnailProvider = {
+	platform: 'twitch',
+	instance: 'twitch.tv',
+	matches: (url) => isTwitchHost(url.hostname),
+	extractId: (url) => parseTwitchUrl(url.href)?.id ?? null,
+	resolve: (ref, options) => resolveTwitchThumbnail(ref.url, options),
+};
+
+
+export const peertubeProvider: ThumbnailProvider = {
+	platform: 'peertube',
+	matches: (url) => isPeerTubePath(url.pathname) && mayBePeerTubeInstance(url),
+	extractId: (url) => extractPeerTubeId(url.pathname),
+	resolve: (ref, options) => resolvePeerTubeThumbnail(ref.url, options),
+};
+
+
+export function registerThumbnailProvider(provider: ThumbnailProvider): void {
+	unregisterThumbnailProvider(provider.platform);
+	providers.unshift(provider);
+}
+
+
+export function unregisterThumbnailProvider(platform: Platform): boolean {
+	const index = providers.findIndex((p) => p.platform === platform);
+	if (index === -1) return false;
+	providers.splice(index, 1);
+	return true;
+}
+
+
+export function getThumbnailProviders(): ThumbnailProvider[] {
+	return [...providers];
+}
+
+
+export function resetThumbnailProviders(): void {
+	providers.length = 0;
+	registerThumbnailProvider(peertubeProvider);
+	registerThumbnailProvider(twitchProvider);
+	registerThumbnailProvider(dailymotionProvider);
+	registerThumbnailProvider(vimeoProvider);
+	registerThumbnailProvider(youtubeProvider);
+}
+
+resetThumbnailProviders();
+
+
+function findProvider(url: string): { provider: ThumbnailProvider; urlObj: URL } | null {
+	try {
+		const urlObj = new URL(url);
+		const provider =
+			providers.find((p) => !p.fallback && p.matches(urlObj)) ??
+			providers.find((p) => p.fallback && p.matches(urlObj));
+		return provider ? { provider, urlObj } : null;
+	} catch {
+		return null;
+	}
+}
+
+
+export function detectPlatform(url: string): Platform | null {
+	return findProvider(url)?.provider.platform ?? null;
+}
+
+
+function buildVideoRef(provider: ThumbnailProvider, urlObj: URL, url: string): VideoRef | null {
+	const id = provider.extractId(urlObj);
+	if (!id) return null;
+
+	const details = provider.describe?.(urlObj) ?? {};
+	const startTime = details.startTime ?? parseStartTime(urlObj);
+
+	const ref: VideoRef = {
+		platform: provider.platform,
+		id,
+		instance: provider.instance ?? urlObj.host,
+		origin: provider.instance ? `https://${provider.instance}` : urlObj.origin,
+		url,
+		isShort: details.isShort ?? false,
+		isLive: details.isLive ?? false,
+	};
+	if (startTime !== undefined) ref.startTime = startTime;
+	if (details.playlistId) ref.playlistId = details.playlistId;
+	if (details.unlistedHash) ref.unlistedHash = details.unlistedHash;
+
+	return ref;
+}
+
+
+
+
+
+export function matchProviders(url: string): ProviderMatch[] {
+	let urlObj: URL;
+	try {
+		urlObj = new URL(url);
+	} catch {
+		return [];
+	}
+
+	const primary = providers.find((p) => !p.fallback && p.matches(urlObj));
+	const candidates = primary ? [primary] : providers.filter((p) => p.fallback && p.matches(urlObj));
+
+	return candidates.flatMap((provider) => {
+		const ref = buildVideoRef(provider, urlObj, url);
+		return ref ? [{ provider, ref }] : [];
+	});
+}
+
+
+export function matchProvider(url: string): ProviderMatch | null {
+	return matchProviders(url)[0] ?? null;
+}
+
+
+export function parseVideoUrl(url: string): VideoRef | null {
+	return matchProvider(url)?.ref ?? null;
+}
+
+
+export function videoRefKey(ref: VideoRef): string {
+	return `${ref.platform}:${ref.instance}:${ref.id}`;
+}
+
+
+export function normalizeVideoUrl(url: string): string | null {
+	const match = matchProvider(url);
+	return match ? videoRefKey(match.ref) : null;
+}
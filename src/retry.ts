@@ -0,0 +1,100 @@
+import type { Platform, RetryOptions, RetryPolicy } from './types.js';
+import { BlockedRequestError } from './guard.js';
+
+
+const DEFAULT_POLICY: Required<RetryPolicy> = {
+	maxAttempts: 3,
+	baseDelayMs: 200,
+	maxDelayMs: 5_000,
+};
+
+
+const RETRYABLE_STATUSES = new Set([408, 425, 429, 500, 502, 503, 504]);
+
+
+const IDEMPOTENT_METHODS = new Set(['GET', 'HEAD']);
+
+
+let retryOptions: RetryOptions = {};
+
+
+export function configureRetries(options: RetryOptions): void {
+	retryOptions = {
+		...retryOptions,
+		...options,
+		platforms: { ...retryOptions.platforms, ...options.platforms },
+	};
+}
+
+
+export function resetRetryConfig(): void {
+	retryOptions = {};
+}
+
+
+export function getRetryPolicy(platform?: Platform): Required<RetryPolicy> {
+	const { platforms, ...base } = retryOptions;
+	return { ...DEFAULT_POLICY, ...base, ...(platform ? platforms?.[platform] : undefined) };
+}
+
+
+export function parseRetryAfter(value: string | null | undefined, now = Date.now()): number | null {
+	const trimmed = value?.trim();
+	if (!trimmed) return null;
+	if (/^\d+$/.test(trimmed)) return Number(trimmed) * 1000;
+
+	const date = Date.parse(trimmed);
+	return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+
+export function backoffDelay(attempt: number, policy: Required<RetryPolicy>): number {
+	const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+	return Math.round(Math.random() * ceiling);
+}
+
+
+function sleep(ms: number, signal: AbortSignal | undefined): Promise<void> {
+	return new Promise((resolve, reject) => {
+		if (signal?.aborted) return reject(signal.reason);
+
+		const onAbort = () => {
+			clearTimeout(timer);
+			reject(signal?.reason);
+		};
+		const timer = setTimeout(() => {
+			signal?.removeEventListener('abort', onAbort);
+			resolve();
+		}, ms);
+		signal?.addEventListener('abort', onAbort, { once: true });
+	});
+}
+
+
+export async function withRetries(
+	send: () => Promise<Response>,
+	method: string,
+	policy: Required<RetryPolicy>,
+	signal?: AbortSignal,
+): Promise<Response> {
+	const attempts = IDEMPOTENT_METHODS.has(method.toUpperCase()) ? Math.max(1, policy.maxAttempts) : 1;
+
+	for (let attempt = 1; ; attempt++) {
+		let res: Response;
+		try {
+			res = await send();
+		} catch (error) {
+			if (attempt >= attempts || signal?.aborted || error instanceof BlockedRequestError) throw error;
+			await sleep(backoffDelay(attempt, policy), signal);
+			continue;
+		}
+
+		if (attempt >= attempts || !RETRYABLE_STATUSES.has(res.status)) return res;
+
+		const retryAfter = parseRetryAfter(res.headers?.get('retry-after'));
+		if (retryAfter !== null && retryAfter > policy.maxDelayMs) return res;
+
+		await res.body?.cancel().catch(() => {});
+		await sleep(retryAfter ?? backoffDelay(attempt, policy), signal);
+	}
+}
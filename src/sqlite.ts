@@ -0,0 +1,110 @@
+import type { DatabaseSync, StatementSync } from 'node:sqlite';
+import type { CacheEntry, SqliteCacheStore, SqliteCacheStoreOptions, ThumbnailResult } from './types.js';
+
+
+const DEFAULT_BUSY_TIMEOUT_MS = 5000;
+
+
+const SCHEMA = `
+	CREATE TABLE IF NOT EXISTS thumbnail_cache (
+		key TEXT PRIMARY KEY,
+		result TEXT NOT NULL,
+		timestamp INTEGER NOT NULL
+	);
+	CREATE INDEX IF NOT EXISTS thumbnail_cache_timestamp ON thumbnail_cache (timestamp);
+`;
+
+
+interface SqliteStatements {
+	db: DatabaseSync;
+	get: StatementSync;
+	set: StatementSync;
+	delete: StatementSync;
+	keys: StatementSync;
+	clear: StatementSync;
+	prune: StatementSync;
+}
+
+
+async function loadSqlite(): Promise<typeof import('node:sqlite')> {
+	try {
+		return await import('node:sqlite');
+	} catch (error) {
+		throw new Error(
+			`The SQLite cache store needs node:sqlite, available from Node.js 22.5 (with --experimental-sqlite before 22.13); running ${process.version}`,
+			{ cause: error },
+		);
+	}
+}
+
+
+async function openDatabase(options: SqliteCacheStoreOptions): Promise<SqliteStatements> {
+	const { DatabaseSync } = await loadSqlite();
+	const db = new DatabaseSync(options.path);
+
+	try {
+		db.exec(`PRAGMA busy_timeout = ${Math.max(0, Math.floor(options.busyTimeoutMs ?? DEFAULT_BUSY_TIMEOUT_MS))}`);
+		db.exec('PRAGMA journal_mode = WAL');
+		db.exec(SCHEMA);
+
+		return {
+			db,
+			get: db.prepare('SELECT result, timestamp FROM thumbnail_cache WHERE key = ?'),
+			set: db.prepare(
+				`INSERT INTO thumbnail_cache (key, result, timestamp) VALUES (?, ?, ?)
+				ON CONFLICT (key) DO UPDATE SET result = excluded.result, timestamp = excluded.timestamp`,
+			),
+			delete: db.prepare('DELETE FROM thumbnail_cache WHERE key = ?'),
+			keys: db.prepare('SELECT key FROM thumbnail_cache ORDER BY rowid'),
+			clear: db.prepare('DELETE FROM thumbnail_cache'),
+			prune: db.prepare('DELETE FROM thumbnail_cache WHERE timestamp <= ?'),
+		};
+	} catch (error) {
+		db.close();
+		throw error;
+	}
+}
+
+
+function toCacheEntry(row: Record<string, unknown> | undefined): CacheEntry | undefined {
+	if (!row || typeof row.result !== 'string') return undefined;
+
+	try {
+		return { result: JSON.parse(row.result) as ThumbnailResult, timestamp: Number(row.timestamp) };
+	} catch {
+		return undefined;
+	}
+}
+
+
+export function createSqliteCacheStore(options: SqliteCacheStoreOptions): SqliteCacheStore {
+	let database: Promise<SqliteStatements> | undefined;
+	const open = () => {
+		database ??= openDatabase(options).catch((error: unknown) => {
+			database = undefined;
+			throw error;
+		});
+		return database;
+	};
+
+	return {
+		get: async (key) => toCacheEntry((await open()).get.get(key)),
+		set: async (key, entry) => {
+			(await open()).set.run(key, JSON.stringify(entry.result), entry.timestamp);
+		},
+		delete: async (key) => {
+			(await open()).delete.run(key);
+		},
+		keys: async () => (await open()).keys.all().map((row) => String(row.key)),
+		clear: async () => {
+			(await open()).clear.run();
+		},
+		prune: async (ttlMs, now) => Number((await open()).prune.run(now - ttlMs).changes),
+		close: async () => {
+			const current = database;
+			database = undefined;
+			const statements = await current?.catch(() => undefined);
+			statements?.db.close();
+		},
+	};
+}
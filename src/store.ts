@@ -0,0 +1,109 @@
+import { createHash, randomUUID } from 'node:crypto';
+import { mkdir, readdir, readFile, rename, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { CacheEntry, FileCacheStoreOptions, ThumbnailCacheStore } from './types.js';
+
+
+const ENTRY_EXTENSION = '.json';
+
+
+interface StoredEntry {
+	key: string;
+	entry: CacheEntry;
+}
+
+
+export function createMemoryCacheStore(): ThumbnailCacheStore {
+	const entries = new Map<string, CacheEntry>();
+
+	return {
+		get: async (key) => entries.get(key),
+		set: async (key, entry) => {
+			entries.set(key, entry);
+		},
+		delete: async (key) => {
+			entries.delete(key);
+		},
+		keys: async () => Array.from(entries.keys()),
+		clear: async () => {
+			entries.clear();
+		},
+	};
+}
+
+
+function isMissing(error: unknown): boolean {
+	return (error as NodeJS.ErrnoException).code === 'ENOENT';
+}
+
+
+async function readStoredEntry(file: string): Promise<StoredEntry | undefined> {
+	let contents: string;
+	try {
+		contents = await readFile(file, 'utf8');
+	} catch (error) {
+		if (isMissing(error)) return undefined;
+		throw error;
+	}
+
+	try {
+		const stored = JSON.parse(contents) as Partial<StoredEntry>;
+		if (typeof stored.key !== 'string' || typeof stored.entry?.timestamp !== 'number') return undefined;
+		return stored as StoredEntry;
+	} catch {
+		return undefined;
+	}
+}
+
+
+export function createFileCacheStore(options: FileCacheStoreOptions): ThumbnailCacheStore {
+	const { directory } = options;
+
+	const fileFor = (key: string) =>
+		join(directory, `${createHash('sha256').update(key).digest('hex').slice(0, 32)}${ENTRY_EXTENSION}`);
+
+	const entryFiles = async (): Promise<string[]> => {
+		try {
+			const names = await readdir(directory);
+			return names.filter((name) => name.endsWith(ENTRY_EXTENSION)).map((name) => join(directory, name));
+		} catch (error) {
+			if (isMissing(error)) return [];
+			throw error;
+		}
+	};
+
+	return {
+		get: async (key) => {
+			const stored = await readStoredEntry(fileFor(key));
+			return stored?.key === key ? stored.entry : undefined;
+		},
+		set: async (key, entry) => {
+			const target = fileFor(key);
+			const temp = `${target}.${process.pid}.${randomUUID()}.tmp`;
+
+			await mkdir(directory, { recursive: true });
+			try {
+				await writeFile(temp, JSON.stringify({ key, entry } satisfies StoredEntry), { flush: true });
+				await rename(temp, target);
+			} finally {
+				await rm(temp, { force: true }).catch(() => {});
+			}
+		},
+		delete: async (key) => {
+			await rm(fileFor(key), { force: true });
+		},
+		keys: async () => {
+			const keys: string[] = [];
+			for (const file of await entryFiles()) {
+				const stored = await readStoredEntry(file);
+				if (stored) keys.push(stored.key);
+			}
+			return keys;
+		},
+		clear: async () => {
+			for (const file of await entryFiles()) {
+				await rm(file, { force: true });
+			}
+		},
+	};
+}
@@ -0,0 +1,70 @@
+import { request as httpRequest, type IncomingMessage } from 'node:http';
+import { request as httpsRequest } from 'node:https';
+import type { LookupFunction } from 'node:net';
+import { Readable } from 'node:stream';
+import type { FetchLike, ResolvedAddress } from './types.js';
+
+
+const NULL_BODY_STATUSES = new Set([101, 103, 204, 205, 304]);
+
+
+async function readBody(body: BodyInit | null | undefined): Promise<Buffer | undefined> {
+	if (body === null || body === undefined) return undefined;
+	return Buffer.from(await new Response(body).arrayBuffer());
+}
+
+
+function toResponse(res: IncomingMessage, method: string): Response {
+	const headers = new Headers();
+	for (let i = 0; i < res.rawHeaders.length - 1; i += 2) {
+		headers.append(res.rawHeaders[i] ?? '', res.rawHeaders[i + 1] ?? '');
+	}
+
+	const status = res.statusCode ?? 0;
+	if (method === 'HEAD' || NULL_BODY_STATUSES.has(status)) {
+		res.resume();
+		return new Response(null, { status, statusText: res.statusMessage, headers });
+	}
+
+	const body = Readable.toWeb(res) as unknown as ReadableStream<Uint8Array>;
+	return new Response(body, { status, statusText: res.statusMessage, headers });
+}
+
+
+/**
+ * Sends requests over `node:http`/`node:https`, connecting only to the addresses `resolve` returns for the URL.
+ * Redirects are returned as-is, like `fetch` with `redirect: 'manual'`.
+ */
+export function createPinnedFetch(resolve: (url: URL) => Promise<ResolvedAddress[]>): FetchLike {
+	return async (url, init) => {
+		const target = new URL(url);
+		const method = (init.method ?? 'GET').toUpperCase();
+		const body = await readBody(init.body);
+
+		const headers: Record<string, string> = {};
+		new Headers(init.headers).forEach((value, name) => {
+			headers[name] = value;
+		});
+
+		const lookup: LookupFunction = (_hostname, options, callback) => {
+			resolve(target).then(
+				(addresses) => {
+					const [first] = addresses;
+					if (options.all) callback(null, addresses);
+					else if (first) callback(null, first.address, first.family);
+					else callback(new Error(`Could not resolve ${target.hostname}`), '');
+				},
+				(error: Error) => callback(error, ''),
+			);
+		};
+
+		const send = target.protocol === 'https:' ? httpsRequest : httpRequest;
+		return new Promise<Response>((resolveResponse, reject) => {
+			const req = send(target, { method, headers, lookup, signal: init.signal ?? undefined }, (res) => {
+				resolveResponse(toResponse(res, method));
+			});
+			req.on('error', reject);
+			req.end(body);
+		});
+	};
+}
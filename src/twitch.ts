@@ -0,0 +1,80 @@
+import type { ThumbnailVariant, TwitchOptions } from './types.js';
+import { toVariant } from './variants.js';
+
+
+const DEFAULT_WIDTH = 1280;
+
+
+const DEFAULT_HEIGHT = 720;
+
+
+const TEMPLATE_SIZES = [
+	{ width: 320, height: 180 },
+	{ width: 640, height: 360 },
+	{ width: 1280, height: 720 },
+	{ width: 1920, height: 1080 },
+];
+
+
+let twitchOptions: TwitchOptions = {};
+
+
+export function configureTwitch(options: TwitchOptions): void {
+	twitchOptions = { ...twitchOptions, ...options };
+}
+
+
+export function resetTwitchConfig(): void {
+	twitchOptions = {};
+}
+
+
+export function getTwitchHeaders(): Record<string, string> | null {
+	const { clientId, accessToken } = twitchOptions;
+	if (!clientId || !accessToken) return null;
+
+	return {
+		Accept: 'application/json',
+		'Client-Id': clientId,
+		Authorization: `Bearer ${accessToken}`,
+	};
+}
+
+
+function isTemplate(url: string): boolean {
+	return url.includes('%{width}') || url.includes('{width}');
+}
+
+
+function fillTemplate(url: string, width: number, height: number): string {
+	return url.replace(/%?\{width\}/g, String(width)).replace(/%?\{height\}/g, String(height));
+}
+
+
+export function applyTwitchTemplate(url: string): { url: string; width: number; height: number } {
+	const width = twitchOptions.width ?? DEFAULT_WIDTH;
+	const height = twitchOptions.height ?? DEFAULT_HEIGHT;
+
+	if (isTemplate(url)) {
+		return { url: fillTemplate(url, width, height), width, height };
+	}
+
+	const size = url.match(/-(\d+)x(\d+)\.\w+$/);
+	return {
+		url,
+		width: size ? Number(size[1]) : width,
+		height: size ? Number(size[2]) : height,
+	};
+}
+
+
+export function twitchTemplateVariants(url: string): ThumbnailVariant[] {
+	const { width, height } = applyTwitchTemplate(url);
+	if (!isTemplate(url)) return [toVariant(url, width, height)];
+
+	const sizes = [...TEMPLATE_SIZES, { width, height }]
+		.filter((size, index, all) => all.findIndex((s) => s.width === size.width) === index)
+		.sort((a, b) => a.width - b.width);
+
+	return sizes.map((size) => toVariant(fillTemplate(url, size.width, size.height), size.width, size.height));
+}
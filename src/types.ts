@@ -1,13 +1,100 @@
 
-export type Platform = 'youtube' | 'peertube' | 'vimeo';
+export type Platform =
+	| 'youtube'
+	| 'peertube'
+	| 'vimeo'
+	| 'dailymotion'
+	| 'twitch'
+	| 'oembed'
+	| 'generic'
+	| 'file'
+	| (string & {});
+
+
+export type ImageFormat = 'jpeg' | 'png' | 'webp' | 'avif' | 'gif' | 'unknown';
+
+
+export interface ImageInfo {
+	width: number;
+	height: number;
+	format: ImageFormat;
+	mimeType: string;
+}
+
+
+export type ThumbnailAspect = '16:9' | '9:16' | '4:3';
+
+
+export interface ThumbnailVariant {
+	url: string;
+	width: number;
+	height: number;
+	format: ImageFormat;
+	contentAspect?: ThumbnailAspect;
+}
 
 
 export interface ThumbnailResult {
 	url: string;
 	width: number;
 	height: number;
+	format: ImageFormat;
 	platform: Platform;
 	cached: boolean;
+	variants: ThumbnailVariant[];
+}
+
+
+export type ThumbnailFailureReason =
+	| 'unsupported'
+	| 'not_found'
+	| 'private'
+	| 'rate_limited'
+	| 'network'
+	| 'invalid_response';
+
+
+export interface ThumbnailFailure {
+	ok: false;
+	reason: ThumbnailFailureReason;
+	status?: number;
+	cause?: unknown;
+}
+
+
+export type ThumbnailOutcome = { ok: true; result: ThumbnailResult } | ThumbnailFailure;
+
+
+export interface RequestOptions {
+	signal?: AbortSignal;
+	timeoutMs?: number;
+	requestTimeoutMs?: number;
+	client?: HttpClientOptions;
+}
+
+
+export interface HttpRequestOptions extends RequestOptions {
+	platform?: Platform;
+}
+
+
+export interface RetryPolicy {
+	maxAttempts?: number;
+	baseDelayMs?: number;
+	maxDelayMs?: number;
+}
+
+
+export interface RetryOptions extends RetryPolicy {
+	platforms?: Partial<Record<Platform, RetryPolicy>>;
+}
+
+
+export interface ThumbnailRequestOptions extends RequestOptions {
+	minWidth?: number;
+	maxWidth?: number;
+	aspect?: ThumbnailAspect;
+	preferFormat?: ImageFormat;
 }
 
 
@@ -15,3 +102,157 @@ export interface CacheEntry {
 	result: ThumbnailResult;
 	timestamp: number;
 }
+
+
+export interface CacheStats {
+	size: number;
+	keys: string[];
+}
+
+
+export interface ThumbnailCacheStore {
+	get(key: string): Promise<CacheEntry | undefined>;
+	set(key: string, entry: CacheEntry, ttlMs?: number): Promise<void>;
+	delete(key: string): Promise<void>;
+	keys(): Promise<string[]>;
+	clear(): Promise<void>;
+	prune?(ttlMs: number, now: number): Promise<number>;
+}
+
+
+export interface FileCacheStoreOptions {
+	directory: string;
+}
+
+
+export interface SqliteCacheStoreOptions {
+	path: string;
+	busyTimeoutMs?: number;
+}
+
+
+export interface SqliteCacheStore extends ThumbnailCacheStore {
+	close(): Promise<void>;
+}
+
+
+export interface ThumbnailResolverOptions {
+	ttlMs?: number;
+	client?: HttpClientOptions;
+	store?: ThumbnailCacheStore;
+}
+
+
+export interface ThumbnailResolver {
+	get(videoUrl: string, options?: ThumbnailRequestOptions): Promise<ThumbnailResult | null>;
+	resolve(videoUrl: string, options?: ThumbnailRequestOptions): Promise<ThumbnailOutcome>;
+	clear(): Promise<void>;
+	stats(): Promise<CacheStats>;
+	prune(): Promise<number>;
+}
+
+
+export interface VideoRef {
+	platform: Platform;
+	id: string;
+	instance: string;
+	origin: string;
+	url: string;
+	startTime?: number;
+	playlistId?: string;
+	unlistedHash?: string;
+	isShort: boolean;
+	isLive: boolean;
+}
+
+
+export interface ThumbnailProvider {
+	platform: Platform;
+	instance?: string;
+	fallback?: boolean;
+	matches(url: URL): boolean;
+	extractId(url: URL): string | null;
+	describe?(url: URL): Partial<Pick<VideoRef, 'startTime' | 'playlistId' | 'unlistedHash' | 'isShort' | 'isLive'>>;
+	resolve(ref: VideoRef, options?: RequestOptions): Promise<ThumbnailResult | ThumbnailFailure | null>;
+}
+
+
+export interface ProviderMatch {
+	provider: ThumbnailProvider;
+	ref: VideoRef;
+}
+
+
+export interface PeerTubeOptions {
+	instances?: string[];
+	verify?: boolean;
+	verificationTtlMs?: number;
+	maxVerifiedInstances?: number;
+}
+
+
+export interface ResolvedAddress {
+	address: string;
+	family: number;
+}
+
+
+export type FetchLike = (url: string, init: RequestInit) => Promise<Response>;
+
+
+export interface HttpClientOptions {
+	fetch?: FetchLike;
+	headers?: Record<string, string>;
+	onRequest?: (url: string, init: RequestInit) => RequestInit | void | Promise<RequestInit | void>;
+}
+
+
+export interface RequestGuardOptions {
+	allowedHosts?: string[];
+	allowedPorts?: number[];
+	maxRedirects?: number;
+	lookup?: (hostname: string) => Promise<ResolvedAddress[]>;
+}
+
+
+export interface YouTubeOptions {
+	probeConcurrency?: number;
+}
+
+
+export interface TwitchOptions {
+	clientId?: string;
+	accessToken?: string;
+	width?: number;
+	height?: number;
+}
+
+
+export interface OEmbedEndpoint {
+	schemes: string[];
+	url: string;
+}
+
+
+export interface OEmbedProviderOptions {
+	endpoints?: OEmbedEndpoint[];
+	discover?: boolean;
+}
+
+
+export interface OpenGraphProviderOptions {
+	maxBytes?: number;
+	requireVideo?: boolean;
+}
+
+
+export interface FrameProviderOptions {
+	ffmpegPath: string;
+	ffprobePath?: string;
+	outputDir: string;
+	publicBaseUrl?: string;
+	offsetSeconds?: number;
+	extensions?: string[];
+	timeoutMs?: number;
+	maxBytes?: number;
+}
@@ -0,0 +1,129 @@
+import type {
+	ImageFormat,
+	ThumbnailAspect,
+	ThumbnailRequestOptions,
+	ThumbnailResult,
+	ThumbnailVariant,
+} from './types.js';
+
+
+const EXTENSION_FORMATS: Record<string, ImageFormat> = {
+	jpg: 'jpeg',
+	jpeg: 'jpeg',
+	png: 'png',
+	webp: 'webp',
+	avif: 'avif',
+	gif: 'gif',
+};
+
+
+const ASPECT_RATIOS: Record<ThumbnailAspect, number> = {
+	'16:9': 16 / 9,
+	'9:16': 9 / 16,
+	'4:3': 4 / 3,
+};
+
+
+const ASPECT_TOLERANCE = 0.03;
+
+
+export function guessImageFormat(url: string): ImageFormat {
+	try {
+		const extension = new URL(url).pathname.match(/\.([a-z0-9]+)$/i)?.[1]?.toLowerCase();
+		return (extension && EXTENSION_FORMATS[extension]) || 'unknown';
+	} catch {
+		return 'unknown';
+	}
+}
+
+
+export function toVariant(url: string, width: number, height: number, format?: ImageFormat): ThumbnailVariant {
+	return { url, width, height, format: format ?? guessImageFormat(url) };
+}
+
+
+export function sortVariants(variants: ThumbnailVariant[]): ThumbnailVariant[] {
+	const unique = new Map<string, ThumbnailVariant>();
+	for (const variant of variants) {
+		if (!unique.has(variant.url)) unique.set(variant.url, variant);
+	}
+	return Array.from(unique.values()).sort((a, b) => a.width - b.width || a.height - b.height);
+}
+
+
+export function buildSrcset(source: ThumbnailResult | ThumbnailVariant[], format?: ImageFormat): string {
+	const variants = Array.isArray(source) ? source : source.variants;
+	const byWidth = new Map<number, ThumbnailVariant>();
+
+	for (const variant of variants) {
+		if (format && variant.format !== format) continue;
+		if (variant.width > 0 && !byWidth.has(variant.width)) {
+			byWidth.set(variant.width, variant);
+		}
+	}
+
+	return Array.from(byWidth.values())
+		.sort((a, b) => a.width - b.width)
+		.map((variant) => `${variant.url} ${variant.width}w`)
+		.join(', ');
+}
+
+
+export function imageAspect(width: number, height: number): ThumbnailAspect | null {
+	if (width <= 0 || height <= 0) return null;
+
+	const ratio = width / height;
+	for (const [aspect, target] of Object.entries(ASPECT_RATIOS) as Array<[ThumbnailAspect, number]>) {
+		if (Math.abs(ratio - target) / target <= ASPECT_TOLERANCE) return aspect;
+	}
+	return null;
+}
+
+
+function aspectRank(variant: ThumbnailVariant, aspect: ThumbnailAspect | undefined): number {
+	if (!aspect) return 0;
+
+	const shape = imageAspect(variant.width, variant.height);
+	const boxed = variant.contentAspect !== undefined && variant.contentAspect !== shape;
+
+	if (!boxed) return shape === aspect ? 0 : 1;
+	return variant.contentAspect === aspect ? 2 : 3;
+}
+
+
+function widthDistance(variant: ThumbnailVariant, options: ThumbnailRequestOptions): number {
+	if (options.minWidth !== undefined && variant.width < options.minWidth) return options.minWidth - variant.width;
+	if (options.maxWidth !== undefined && variant.width > options.maxWidth) return variant.width - options.maxWidth;
+	return 0;
+}
+
+
+function formatRank(variant: ThumbnailVariant, format: ImageFormat | undefined): number {
+	return format && variant.format !== format ? 1 : 0;
+}
+
+
+export function selectThumbnailVariant(
+	result: ThumbnailResult,
+	options: ThumbnailRequestOptions = {},
+): ThumbnailResult {
+	if (
+		options.minWidth === undefined &&
+		options.maxWidth === undefined &&
+		options.aspect === undefined &&
+		options.preferFormat === undefined
+	) {
+		return result;
+	}
+
+	const [best] = [...result.variants].sort(
+		(a, b) =>
+			widthDistance(a, options) - widthDistance(b, options) ||
+			aspectRank(a, options.aspect) - aspectRank(b, options.aspect) ||
+			b.width - a.width ||
+			formatRank(a, options.preferFormat) - formatRank(b, options.preferFormat),
+	);
+	if (!best) return result;
+
+	return { ...result, url: best.url, width: best.width, height: best.height, format: best.format };
+}
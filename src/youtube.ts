@@ -0,0 +1,116 @@
+import type { YouTubeOptions } from './types.js';
+
+
+const DEFAULT_PROBE_CONCURRENCY = 8;
+
+
+let youtubeOptions: YouTubeOptions = {};
+
+
+export function configureYouTube(options: YouTubeOptions): void {
+	youtubeOptions = { ...youtubeOptions, ...options };
+}
+
+
+export function resetYouTubeConfig(): void {
+	youtubeOptions = {};
+}
+
+
+export function getYouTubeProbeConcurrency(): number {
+	return Math.max(1, Math.floor(youtubeOptions.probeConcurrency ?? DEFAULT_PROBE_CONCURRENCY));
+}
+
+
+export function createRequestLimiter(limit: number) {
+	const waiting: Array<() => void> = [];
+	let active = 0;
+
+	const release = () => {
+		const next = waiting.shift();
+		if (next) next();
+		else active--;
+	};
+
+	return async <T>(run: () => Promise<T>, signal?: AbortSignal): Promise<T> => {
+		signal?.throwIfAborted();
+		if (active < limit) {
+			active++;
+		} else {
+			await new Promise<void>((resolve, reject) => {
+				const start = () => {
+					signal?.removeEventListener('abort', cancel);
+					resolve();
+				};
+				const cancel = () => {
+					waiting.splice(waiting.indexOf(start), 1);
+					reject(signal?.reason);
+				};
+				waiting.push(start);
+				signal?.addEventListener('abort', cancel, { once: true });
+			});
+		}
+
+		try {
+			return await run();
+		} finally {
+			release();
+		}
+	};
+}
+
+
+export function firstInPriorityOrder<T>(
+	tasks: Array<(signal: AbortSignal) => Promise<T | null>>,
+	concurrency: number,
+): Promise<T | null> {
+	return new Promise((resolve) => {
+		const controllers: AbortController[] = [];
+		const results: Array<T | null | undefined> = [];
+		let limit = tasks.length;
+		let next = 0;
+		let running = 0;
+		let done = false;
+
+		const finish = (value: T | null) => {
+			done = true;
+			for (const controller of controllers) controller.abort();
+			resolve(value);
+		};
+
+		const settle = (index: number, value: T | null) => {
+			running--;
+			if (done) return;
+
+			results[index] = value;
+			if (value !== null && index < limit) {
+				limit = index + 1;
+				for (const controller of controllers.slice(limit)) controller.abort();
+			}
+
+			for (let i = 0; i < limit; i++) {
+				const result = results[i];
+				if (result === undefined) return launch();
+				if (result !== null) return finish(result);
+			}
+			finish(null);
+		};
+
+		const launch = () => {
+			while (next < limit && running < concurrency) {
+				const index = next++;
+				const task = tasks[index];
+				const controller = new AbortController();
+				controllers.push(controller);
+				running++;
+
+				(task ? task(controller.signal) : Promise.resolve(null))
+					.catch(() => null)
+					.then((value) => settle(index, value));
+			}
+		};
+
+		if (tasks.length === 0) return resolve(null);
+		launch();
+	});
+}
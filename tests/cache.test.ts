@@ -1,17 +1,43 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
 import {
 	getVideoThumbnail,
+	resolveVideoThumbnail,
+	createThumbnailResolver,
 	clearThumbnailCache,
 	getCacheStats,
 	pruneExpiredCache,
 	CACHE_TTL,
 } from '../src/cache.js';
+import { configurePeerTube, resetPeerTubeConfig } from '../src/peertube.js';
+import { configureRequestGuard, resetRequestGuard } from '../src/guard.js';
+import { configureTwitch, resetTwitchConfig } from '../src/twitch.js';
+import { configureYouTube, resetYouTubeConfig } from '../src/youtube.js';
+import { configureRetries, resetRetryConfig } from '../src/retry.js';
+import { createFileCacheStore, createMemoryCacheStore } from '../src/store.js';
+import { registerThumbnailProvider, resetThumbnailProviders } from '../src/providers.js';
+import { thumbnailFailure } from '../src/outcome.js';
+import { hangingFetch } from './helpers.js';
+
+beforeEach(() => {
+	configurePeerTube({ instances: ['pt.example.com', 'peer.example.org', 'a.example.org', 'b.example.org'] });
+	configureRequestGuard({ lookup: async () => [{ address: '93.184.216.34', family: 4 }] });
+	configureYouTube({ probeConcurrency: 1 });
+});
+
+afterEach(() => {
+	resetPeerTubeConfig();
+	resetRequestGuard();
+	resetYouTubeConfig();
+});
 
 describe('getVideoThumbnail', () => {
 	let mockFetch: ReturnType<typeof vi.fn>;
 
-	beforeEach(() => {
-		clearThumbnailCache();
+	beforeEach(async () => {
+		await clearThumbnailCache();
 		mockFetch = vi.fn();
 		vi.stubGlobal('fetch', mockFetch);
 	});
@@ -24,7 +50,7 @@ describe('getVideoThumbnail', () => {
 	it('returns a thumbnail result for a YouTube URL', async () => {
 		mockFetch.mockResolvedValueOnce({ ok: true });
 
-		const result = await getVideoThumbnail('https://www.youtube.com/watch?v=abc123');
+		const result = await getVideoThumbnail('https://www.youtube.com/watch?v=abc123xxxxx');
 
 		expect(result).not.toBeNull();
 		expect(result?.platform).toBe('youtube');
@@ -34,29 +60,33 @@ describe('getVideoThumbnail', () => {
 	it('caches the result after first call', async () => {
 		mockFetch.mockResolvedValueOnce({ ok: true });
 
-		await getVideoThumbnail('https://www.youtube.com/watch?v=cache1');
+		await getVideoThumbnail('https://www.youtube.com/watch?v=cache1xxxxx');
 
-		const stats = getCacheStats();
+		const stats = await getCacheStats();
 		expect(stats.size).toBe(1);
-		expect(stats.keys).toContain('https://www.youtube.com/watch?v=cache1');
+		expect(stats.keys).toContain('youtube:youtube.com:cache1xxxxx');
 	});
 
 	it('returns cached result on second call', async () => {
-		mockFetch.mockResolvedValueOnce({ ok: true });
+		mockFetch
+			.mockResolvedValueOnce({ ok: true })
+			.mockResolvedValueOnce({ ok: false })
+			.mockResolvedValueOnce({ ok: false })
+			.mockResolvedValueOnce({ ok: false });
 
-		const first = await getVideoThumbnail('https://www.youtube.com/watch?v=cached');
-		const second = await getVideoThumbnail('https://www.youtube.com/watch?v=cached');
+		const first = await getVideoThumbnail('https://www.youtube.com/watch?v=cachedxxxxx');
+		const second = await getVideoThumbnail('https://www.youtube.com/watch?v=cachedxxxxx');
 
 		expect(first?.cached).toBe(false);
 		expect(second?.cached).toBe(true);
-		expect(mockFetch).toHaveBeenCalledTimes(1);
+		expect(mockFetch).toHaveBeenCalledTimes(4);
 	});
 
 	it('cached result has cached: true', async () => {
 		mockFetch.mockResolvedValueOnce({ ok: true });
 
-		await getVideoThumbnail('https://www.youtube.com/watch?v=cf');
-		const cached = await getVideoThumbnail('https://www.youtube.com/watch?v=cf');
+		await getVideoThumbnail('https://www.youtube.com/watch?v=cfxxxxxxxxx');
+		const cached = await getVideoThumbnail('https://www.youtube.com/watch?v=cfxxxxxxxxx');
 
 		expect(cached?.cached).toBe(true);
 	});
@@ -64,8 +94,8 @@ describe('getVideoThumbnail', () => {
 	it('cached result preserves URL, width, height, platform', async () => {
 		mockFetch.mockResolvedValueOnce({ ok: true });
 
-		const original = await getVideoThumbnail('https://www.youtube.com/watch?v=preserve');
-		const cached = await getVideoThumbnail('https://www.youtube.com/watch?v=preserve');
+		const original = await getVideoThumbnail('https://www.youtube.com/watch?v=preservexxx');
+		const cached = await getVideoThumbnail('https://www.youtube.com/watch?v=preservexxx');
 
 		expect(cached?.url).toBe(original?.url);
 		expect(cached?.width).toBe(original?.width);
@@ -78,15 +108,15 @@ describe('getVideoThumbnail', () => {
 
 		mockFetch.mockResolvedValue({ ok: true });
 
-		await getVideoThumbnail('https://www.youtube.com/watch?v=expire');
+		await getVideoThumbnail('https://www.youtube.com/watch?v=expirexxxxx');
 
 		
 		vi.advanceTimersByTime(CACHE_TTL + 1);
 
-		const refreshed = await getVideoThumbnail('https://www.youtube.com/watch?v=expire');
+		const refreshed = await getVideoThumbnail('https://www.youtube.com/watch?v=expirexxxxx');
 
 		expect(refreshed?.cached).toBe(false);
-		expect(mockFetch).toHaveBeenCalledTimes(2);
+		expect(mockFetch).toHaveBeenCalledTimes(8);
 	});
 
 	it('does not refetch before TTL expires', async () => {
@@ -94,15 +124,15 @@ describe('getVideoThumbnail', () => {
 
 		mockFetch.mockResolvedValue({ ok: true });
 
-		await getVideoThumbnail('https://www.youtube.com/watch?v=noexpire');
+		await getVideoThumbnail('https://www.youtube.com/watch?v=noexpirexxx');
 
 		
 		vi.advanceTimersByTime(CACHE_TTL - 1);
 
-		const cached = await getVideoThumbnail('https://www.youtube.com/watch?v=noexpire');
+		const cached = await getVideoThumbnail('https://www.youtube.com/watch?v=noexpirexxx');
 
 		expect(cached?.cached).toBe(true);
-		expect(mockFetch).toHaveBeenCalledTimes(1);
+		expect(mockFetch).toHaveBeenCalledTimes(4);
 	});
 
 	it('returns null for unknown platforms', async () => {
@@ -124,10 +154,10 @@ describe('getVideoThumbnail', () => {
 	it('does not cache null results', async () => {
 		mockFetch.mockResolvedValue({ ok: false });
 
-		await getVideoThumbnail('https://www.youtube.com/watch?v=fail');
+		await getVideoThumbnail('https://www.youtube.com/watch?v=failxxxxxxx');
 		
 
-		const stats = getCacheStats();
+		const stats = await getCacheStats();
 		expect(stats.size).toBe(0);
 	});
 
@@ -145,6 +175,28 @@ describe('getVideoThumbnail', () => {
 		expect(result?.platform).toBe('vimeo');
 	});
 
+	it('handles Dailymotion URLs', async () => {
+		mockFetch.mockResolvedValueOnce({
+			ok: true,
+			json: async () => ({ thumbnail_url: 'https://s1.dmcdn.net/v/thumb/x720' }),
+		});
+
+		const result = await getVideoThumbnail('https://dai.ly/x7tgad0');
+		expect(result?.platform).toBe('dailymotion');
+	});
+
+	it('handles Twitch URLs', async () => {
+		configureTwitch({ clientId: 'client', accessToken: 'token' });
+		mockFetch.mockResolvedValueOnce({
+			ok: true,
+			json: async () => ({ data: [{ thumbnail_url: 'https://static-cdn.jtvnw.net/thumb-%{width}x%{height}.jpg' }] }),
+		});
+
+		const result = await getVideoThumbnail('https://clips.twitch.tv/FunnySlug');
+		expect(result?.platform).toBe('twitch');
+		resetTwitchConfig();
+	});
+
 	it('handles PeerTube URLs', async () => {
 		mockFetch.mockResolvedValueOnce({
 			ok: true,
@@ -158,10 +210,10 @@ describe('getVideoThumbnail', () => {
 	it('caches different URLs independently', async () => {
 		mockFetch.mockResolvedValue({ ok: true });
 
-		await getVideoThumbnail('https://www.youtube.com/watch?v=vid1');
-		await getVideoThumbnail('https://www.youtube.com/watch?v=vid2');
+		await getVideoThumbnail('https://www.youtube.com/watch?v=vid1xxxxxxx');
+		await getVideoThumbnail('https://www.youtube.com/watch?v=vid2xxxxxxx');
 
-		const stats = getCacheStats();
+		const stats = await getCacheStats();
 		expect(stats.size).toBe(2);
 	});
 
@@ -170,23 +222,440 @@ describe('getVideoThumbnail', () => {
 
 		mockFetch.mockResolvedValue({ ok: true });
 
-		await getVideoThumbnail('https://www.youtube.com/watch?v=expDel');
-		expect(getCacheStats().size).toBe(1);
+		await getVideoThumbnail('https://www.youtube.com/watch?v=expDelxxxxx');
+		expect((await getCacheStats()).size).toBe(1);
 
 		vi.advanceTimersByTime(CACHE_TTL + 1);
 
 		
-		await getVideoThumbnail('https://www.youtube.com/watch?v=expDel');
-		expect(getCacheStats().size).toBe(1);
-		expect(mockFetch).toHaveBeenCalledTimes(2);
+		await getVideoThumbnail('https://www.youtube.com/watch?v=expDelxxxxx');
+		expect((await getCacheStats()).size).toBe(1);
+		expect(mockFetch).toHaveBeenCalledTimes(8);
+	});
+
+	it('shares one cache entry across different links to the same video', async () => {
+		mockFetch.mockResolvedValue({ ok: true });
+
+		const first = await getVideoThumbnail('https://youtu.be/same1xxxxxx');
+		const watch = await getVideoThumbnail('https://www.youtube.com/watch?v=same1xxxxxx&t=30');
+		const mobile = await getVideoThumbnail('https://m.youtube.com/watch?v=same1xxxxxx&utm_source=feed');
+		const embed = await getVideoThumbnail('https://www.youtube.com/embed/same1xxxxxx');
+
+		expect(first?.cached).toBe(false);
+		expect(watch?.cached).toBe(true);
+		expect(mobile?.cached).toBe(true);
+		expect(embed?.cached).toBe(true);
+		expect((await getCacheStats()).keys).toEqual(['youtube:youtube.com:same1xxxxxx']);
+		expect(mockFetch).toHaveBeenCalledTimes(4);
+	});
+
+	it('deduplicates concurrent lookups for the same video', async () => {
+		mockFetch.mockResolvedValue({ ok: true });
+
+		const [a, b] = await Promise.all([
+			getVideoThumbnail('https://youtu.be/conc1xxxxxx'),
+			getVideoThumbnail('https://www.youtube.com/watch?v=conc1xxxxxx'),
+		]);
+
+		expect(a?.url).toBe(b?.url);
+		expect(mockFetch).toHaveBeenCalledTimes(4);
+	});
+
+	it('selects a variant matching the requested size and aspect', async () => {
+		mockFetch.mockResolvedValue({ ok: true });
+
+		const full = await getVideoThumbnail('https://youtu.be/size1xxxxxx');
+		const small = await getVideoThumbnail('https://youtu.be/size1xxxxxx', { maxWidth: 400, aspect: '16:9' });
+
+		expect(full?.url).toBe('https://img.youtube.com/vi/size1xxxxxx/maxresdefault.jpg');
+		expect(small).toMatchObject({
+			url: 'https://img.youtube.com/vi/size1xxxxxx/mqdefault.jpg',
+			width: 320,
+			height: 180,
+			cached: true,
+		});
+		expect(mockFetch).toHaveBeenCalledTimes(4);
+	});
+
+	it('rejects aborted lookups without caching anything', async () => {
+		mockFetch.mockImplementation(hangingFetch);
+		const controller = new AbortController();
+
+		const lookup = getVideoThumbnail('https://youtu.be/abrt1xxxxxx', { signal: controller.signal });
+		controller.abort(new Error('cancelled'));
+
+		await expect(lookup).rejects.toThrow('cancelled');
+		expect((await getCacheStats()).size).toBe(0);
+	});
+
+	it('rejects with a TimeoutError after timeoutMs', async () => {
+		mockFetch.mockImplementation(hangingFetch);
+
+		await expect(getVideoThumbnail('https://youtu.be/tout1xxxxxx', { timeoutMs: 5 })).rejects.toMatchObject({
+			name: 'TimeoutError',
+		});
+		expect((await getCacheStats()).size).toBe(0);
+	});
+
+	it('keeps a shared lookup running for callers that did not abort', async () => {
+		let respond: (() => void) | undefined;
+		mockFetch.mockImplementation(
+			(url: string, init: RequestInit) =>
+				new Promise((resolve, reject) => {
+					init.signal?.addEventListener('abort', () => reject(init.signal?.reason));
+					if (url.endsWith('maxresdefault.jpg')) respond = () => resolve({ ok: true });
+					else resolve({ ok: false });
+				}),
+		);
+		const controller = new AbortController();
+
+		const aborted = getVideoThumbnail('https://youtu.be/share1xxxxx', { signal: controller.signal });
+		const patient = getVideoThumbnail('https://www.youtube.com/watch?v=share1xxxxx');
+		controller.abort(new Error('cancelled'));
+
+		await expect(aborted).rejects.toThrow('cancelled');
+		respond?.();
+		expect((await patient)?.url).toBe('https://img.youtube.com/vi/share1xxxxx/maxresdefault.jpg');
+		expect((await getCacheStats()).keys).toEqual(['youtube:youtube.com:share1xxxxx']);
+	});
+
+	it('cancels the network work once every caller has aborted', async () => {
+		const signals: AbortSignal[] = [];
+		mockFetch.mockImplementation((url: string, init: RequestInit) => {
+			if (init.signal) signals.push(init.signal);
+			return hangingFetch(url, init);
+		});
+		const controller = new AbortController();
+
+		const lookup = getVideoThumbnail('https://youtu.be/cncl1xxxxxx', { signal: controller.signal });
+		await new Promise((resolve) => setTimeout(resolve, 0));
+		controller.abort(new Error('cancelled'));
+
+		await expect(lookup).rejects.toThrow('cancelled');
+		expect(signals.length).toBeGreaterThan(0);
+		expect(signals.every((signal) => signal.aborted)).toBe(true);
+	});
+
+	it('keys PeerTube videos by instance', async () => {
+		mockFetch.mockResolvedValue({
+			ok: true,
+			json: async () => ({ thumbnailPath: '/thumb.jpg' }),
+		});
+
+		await getVideoThumbnail('https://a.example.org/w/same-uuid');
+		await getVideoThumbnail('https://b.example.org/videos/watch/same-uuid');
+
+		expect((await getCacheStats()).keys).toEqual([
+			'peertube:a.example.org:same-uuid',
+			'peertube:b.example.org:same-uuid',
+		]);
+	});
+});
+
+describe('resolveVideoThumbnail', () => {
+	let mockFetch: ReturnType<typeof vi.fn>;
+
+	beforeEach(async () => {
+		await clearThumbnailCache();
+		configureRetries({ maxAttempts: 1 });
+		mockFetch = vi.fn();
+		vi.stubGlobal('fetch', mockFetch);
+	});
+
+	afterEach(() => {
+		resetRetryConfig();
+		vi.restoreAllMocks();
+	});
+
+	it('wraps a found thumbnail in a success outcome', async () => {
+		mockFetch.mockResolvedValueOnce({ ok: true }).mockResolvedValueOnce({ ok: false, status: 404 });
+
+		const outcome = await resolveVideoThumbnail('https://www.youtube.com/watch?v=okayxxxxxxx');
+
+		expect(outcome.ok).toBe(true);
+		expect(outcome.ok && outcome.result.platform).toBe('youtube');
+	});
+
+	it('reports URLs no provider handles as unsupported', async () => {
+		const outcome = await resolveVideoThumbnail('https://example.com/video');
+
+		expect(outcome).toEqual({ ok: false, reason: 'unsupported' });
+		expect(mockFetch).not.toHaveBeenCalled();
+	});
+
+	it('reports missing videos as not_found with the status', async () => {
+		mockFetch.mockResolvedValue({ ok: false, status: 404 });
+
+		const outcome = await resolveVideoThumbnail('https://www.youtube.com/watch?v=gonexxxxxxx');
+
+		expect(outcome).toEqual({ ok: false, reason: 'not_found', status: 404 });
+	});
+
+	it('reports forbidden videos as private', async () => {
+		mockFetch.mockResolvedValueOnce({ ok: false, status: 403 });
+
+		const outcome = await resolveVideoThumbnail('https://pt.example.com/videos/watch/secret-uuid');
+
+		expect(outcome).toEqual({ ok: false, reason: 'private', status: 403 });
+	});
+
+	it('reports rate limits ahead of missing sizes', async () => {
+		mockFetch.mockImplementation(async (url: string) =>
+			url.includes('maxresdefault') ? { ok: false, status: 404 } : { ok: false, status: 429 },
+		);
+
+		const outcome = await resolveVideoThumbnail('https://www.youtube.com/watch?v=limitxxxxxx');
+
+		expect(outcome).toEqual({ ok: false, reason: 'rate_limited', status: 429 });
+	});
+
+	it('reports fetch errors as network failures with the cause', async () => {
+		const error = new TypeError('fetch failed');
+		mockFetch.mockRejectedValue(error);
+
+		const outcome = await resolveVideoThumbnail('https://vimeo.com/123456');
+
+		expect(outcome).toEqual({ ok: false, reason: 'network', cause: error });
+	});
+
+	it('reports malformed API responses as invalid_response', async () => {
+		mockFetch.mockResolvedValueOnce({
+			ok: true,
+			json: async () => JSON.parse('<html>'),
+		});
+
+		const outcome = await resolveVideoThumbnail('https://vimeo.com/123456');
+
+		expect(outcome).toMatchObject({ ok: false, reason: 'invalid_response' });
+		expect(!outcome.ok && outcome.cause).toBeInstanceOf(SyntaxError);
+	});
+
+	it('reports a provider that throws as a failure instead of rejecting', async () => {
+		const error = new Error('boom');
+		registerThumbnailProvider({
+			platform: 'inhouse',
+			matches: (url) => url.hostname === 'video.inhouse.test',
+			extractId: (url) => url.pathname,
+			resolve: async () => {
+				throw error;
+			},
+		});
+
+		try {
+			const outcome = await resolveVideoThumbnail('https://video.inhouse.test/v/abc');
+
+			expect(outcome).toEqual({ ok: false, reason: 'network', cause: error });
+			expect(await getVideoThumbnail('https://video.inhouse.test/v/abc')).toBeNull();
+		} finally {
+			resetThumbnailProviders();
+		}
+	});
+
+	it('reports the most relevant failure across fallback providers', async () => {
+		registerThumbnailProvider({
+			platform: 'first',
+			fallback: true,
+			matches: (url) => url.hostname === 'video.inhouse.test',
+			extractId: (url) => url.pathname,
+			resolve: async () => thumbnailFailure('unsupported'),
+		});
+		registerThumbnailProvider({
+			platform: 'second',
+			fallback: true,
+			matches: (url) => url.hostname === 'video.inhouse.test',
+			extractId: (url) => url.pathname,
+			resolve: async () => thumbnailFailure('rate_limited', { status: 429 }),
+		});
+
+		try {
+			const outcome = await resolveVideoThumbnail('https://video.inhouse.test/v/abc');
+
+			expect(outcome).toEqual({ ok: false, reason: 'rate_limited', status: 429 });
+		} finally {
+			resetThumbnailProviders();
+		}
+	});
+
+	it('does not cache failures', async () => {
+		mockFetch.mockResolvedValue({ ok: false, status: 404 });
+
+		await resolveVideoThumbnail('https://vimeo.com/404404');
+
+		expect((await getCacheStats()).size).toBe(0);
+	});
+
+	it('backs getVideoThumbnail, which maps failures to null', async () => {
+		mockFetch.mockResolvedValue({ ok: false, status: 403 });
+
+		expect(await getVideoThumbnail('https://vimeo.com/123456')).toBeNull();
+	});
+});
+
+describe('createThumbnailResolver', () => {
+	let mockFetch: ReturnType<typeof vi.fn>;
+
+	beforeEach(async () => {
+		await clearThumbnailCache();
+		mockFetch = vi.fn().mockResolvedValue({ ok: true });
+		vi.stubGlobal('fetch', mockFetch);
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+		vi.useRealTimers();
+	});
+
+	it('keeps a separate cache per instance', async () => {
+		const site = createThumbnailResolver();
+		const admin = createThumbnailResolver();
+
+		await site.get('https://www.youtube.com/watch?v=instancexxx');
+
+		expect((await site.stats()).keys).toEqual(['youtube:youtube.com:instancexxx']);
+		expect((await admin.stats()).size).toBe(0);
+		expect((await getCacheStats()).size).toBe(0);
+
+		expect((await admin.get('https://www.youtube.com/watch?v=instancexxx'))?.cached).toBe(false);
+		await site.clear();
+		expect((await site.stats()).size).toBe(0);
+		expect((await admin.stats()).size).toBe(1);
+	});
+
+	it('applies its own TTL to lookups and pruning', async () => {
+		vi.useFakeTimers();
+		const preview = createThumbnailResolver({ ttlMs: 1000 });
+		const site = createThumbnailResolver();
+
+		await preview.get('https://www.youtube.com/watch?v=ttlxxxxxxxx');
+		await site.get('https://www.youtube.com/watch?v=ttlxxxxxxxx');
+		vi.advanceTimersByTime(1000);
+
+		expect(await site.prune()).toBe(0);
+		expect(await preview.prune()).toBe(1);
+		expect((await preview.stats()).size).toBe(0);
+		expect((await site.get('https://www.youtube.com/watch?v=ttlxxxxxxxx'))?.cached).toBe(true);
+	});
+
+	it('sends requests through its own HTTP client', async () => {
+		const customFetch = vi.fn().mockResolvedValue({ ok: true });
+		const resolver = createThumbnailResolver({ client: { fetch: customFetch, headers: { 'User-Agent': 'admin' } } });
+
+		const outcome = await resolver.resolve('https://www.youtube.com/watch?v=clientxxxxx');
+
+		expect(outcome.ok).toBe(true);
+		expect(customFetch).toHaveBeenCalledWith(
+			'https://img.youtube.com/vi/clientxxxxx/maxresdefault.jpg',
+			expect.objectContaining({ headers: { 'User-Agent': 'admin', range: 'bytes=0-32767' } }),
+		);
+		expect(mockFetch).not.toHaveBeenCalled();
+	});
+
+	it('reads and writes through a custom store with the TTL', async () => {
+		const memory = createMemoryCacheStore();
+		const store = { ...memory, set: vi.fn(memory.set), delete: vi.fn(memory.delete) };
+		const resolver = createThumbnailResolver({ store, ttlMs: 5000 });
+
+		const first = await resolver.get('https://www.youtube.com/watch?v=storexxxxxx');
+		const second = await resolver.get('https://www.youtube.com/watch?v=storexxxxxx');
+
+		expect(store.set).toHaveBeenCalledWith(
+			'youtube:youtube.com:storexxxxxx',
+			{ result: first, timestamp: expect.any(Number) },
+			5000,
+		);
+		expect(second?.cached).toBe(true);
+		expect(await memory.keys()).toEqual(['youtube:youtube.com:storexxxxxx']);
+	});
+
+	it('serves entries already in the store and prunes expired ones', async () => {
+		const store = createMemoryCacheStore();
+		const stored = await createThumbnailResolver().get('https://www.youtube.com/watch?v=sharedxxxxx');
+		await store.set('youtube:youtube.com:sharedxxxxx', { result: stored!, timestamp: Date.now() });
+		await store.set('youtube:youtube.com:stalexxxxxx', { result: stored!, timestamp: Date.now() - 10_000 });
+		mockFetch.mockClear();
+
+		const resolver = createThumbnailResolver({ store, ttlMs: 5000 });
+
+		expect((await resolver.get('https://www.youtube.com/watch?v=sharedxxxxx'))?.cached).toBe(true);
+		expect(mockFetch).not.toHaveBeenCalled();
+		expect(await resolver.prune()).toBe(1);
+		expect((await resolver.stats()).keys).toEqual(['youtube:youtube.com:sharedxxxxx']);
+	});
+
+	it('treats a failing store as a cache miss', async () => {
+		const failure = async () => {
+			throw new Error('EACCES');
+		};
+		const resolver = createThumbnailResolver({
+			store: { ...createMemoryCacheStore(), get: failure, set: failure, delete: failure },
+		});
+
+		const first = await resolver.get('https://youtu.be/abcdefghijk');
+		const second = await resolver.resolve('https://youtu.be/abcdefghijk');
+
+		expect(first).toMatchObject({ platform: 'youtube', cached: false });
+		expect(second).toMatchObject({ ok: true, result: { cached: false } });
+	});
+
+	it('ignores a failing delete of an expired entry', async () => {
+		vi.useFakeTimers();
+		const memory = createMemoryCacheStore();
+		const resolver = createThumbnailResolver({
+			store: {
+				...memory,
+				delete: async () => {
+					throw new Error('SQLITE_BUSY');
+				},
+			},
+			ttlMs: 1000,
+		});
+
+		await resolver.get('https://youtu.be/abcdefghijk');
+		vi.advanceTimersByTime(1000);
+
+		expect((await resolver.get('https://youtu.be/abcdefghijk'))?.cached).toBe(false);
+	});
+
+	it('lets the store prune expired entries itself when it can', async () => {
+		vi.useFakeTimers();
+		vi.setSystemTime(50_000);
+		const prune = vi.fn(async () => 3);
+		const resolver = createThumbnailResolver({ store: { ...createMemoryCacheStore(), prune }, ttlMs: 5000 });
+
+		expect(await resolver.prune()).toBe(3);
+		expect(prune).toHaveBeenCalledWith(5000, 50_000);
+	});
+
+	it('reuses thumbnails persisted by a file store after a restart', async () => {
+		const directory = await mkdtemp(join(tmpdir(), 'thumbnail-cache-'));
+		try {
+			const before = createThumbnailResolver({ store: createFileCacheStore({ directory }) });
+			await before.get('https://www.youtube.com/watch?v=diskxxxxxxx');
+			mockFetch.mockClear();
+
+			const after = createThumbnailResolver({ store: createFileCacheStore({ directory }) });
+			const result = await after.get('https://www.youtube.com/watch?v=diskxxxxxxx');
+
+			expect(result?.cached).toBe(true);
+			expect(mockFetch).not.toHaveBeenCalled();
+		} finally {
+			await rm(directory, { recursive: true, force: true });
+		}
+	});
+
+	it('backs the module-level functions with a default instance', async () => {
+		await getVideoThumbnail('https://www.youtube.com/watch?v=defaultxxxx');
+
+		expect((await getCacheStats()).keys).toEqual(['youtube:youtube.com:defaultxxxx']);
+		expect((await createThumbnailResolver().stats()).size).toBe(0);
 	});
 });
 
 describe('clearThumbnailCache', () => {
 	let mockFetch: ReturnType<typeof vi.fn>;
 
-	beforeEach(() => {
-		clearThumbnailCache();
+	beforeEach(async () => {
+		await clearThumbnailCache();
 		mockFetch = vi.fn();
 		vi.stubGlobal('fetch', mockFetch);
 	});
@@ -198,36 +667,36 @@ describe('clearThumbnailCache', () => {
 	it('empties all entries', async () => {
 		mockFetch.mockResolvedValue({ ok: true });
 
-		await getVideoThumbnail('https://www.youtube.com/watch?v=a');
-		await getVideoThumbnail('https://www.youtube.com/watch?v=b');
-		expect(getCacheStats().size).toBe(2);
+		await getVideoThumbnail('https://www.youtube.com/watch?v=axxxxxxxxxx');
+		await getVideoThumbnail('https://www.youtube.com/watch?v=bxxxxxxxxxx');
+		expect((await getCacheStats()).size).toBe(2);
 
-		clearThumbnailCache();
-		expect(getCacheStats().size).toBe(0);
+		await clearThumbnailCache();
+		expect((await getCacheStats()).size).toBe(0);
 	});
 
-	it('is safe to call on empty cache', () => {
-		expect(() => clearThumbnailCache()).not.toThrow();
-		expect(getCacheStats().size).toBe(0);
+	it('is safe to call on empty cache', async () => {
+		await expect(clearThumbnailCache()).resolves.toBeUndefined();
+		expect((await getCacheStats()).size).toBe(0);
 	});
 
 	it('allows fresh fetches after clearing', async () => {
 		mockFetch.mockResolvedValue({ ok: true });
 
-		await getVideoThumbnail('https://www.youtube.com/watch?v=fresh');
-		clearThumbnailCache();
+		await getVideoThumbnail('https://www.youtube.com/watch?v=freshxxxxxx');
+		await clearThumbnailCache();
 
-		const result = await getVideoThumbnail('https://www.youtube.com/watch?v=fresh');
+		const result = await getVideoThumbnail('https://www.youtube.com/watch?v=freshxxxxxx');
 		expect(result?.cached).toBe(false);
-		expect(mockFetch).toHaveBeenCalledTimes(2);
+		expect(mockFetch).toHaveBeenCalledTimes(8);
 	});
 });
 
 describe('getCacheStats', () => {
 	let mockFetch: ReturnType<typeof vi.fn>;
 
-	beforeEach(() => {
-		clearThumbnailCache();
+	beforeEach(async () => {
+		await clearThumbnailCache();
 		mockFetch = vi.fn();
 		vi.stubGlobal('fetch', mockFetch);
 	});
@@ -236,8 +705,8 @@ describe('getCacheStats', () => {
 		vi.restoreAllMocks();
 	});
 
-	it('returns size 0 and empty keys for empty cache', () => {
-		const stats = getCacheStats();
+	it('returns size 0 and empty keys for empty cache', async () => {
+		const stats = await getCacheStats();
 		expect(stats.size).toBe(0);
 		expect(stats.keys).toEqual([]);
 	});
@@ -245,11 +714,11 @@ describe('getCacheStats', () => {
 	it('returns correct size after adding entries', async () => {
 		mockFetch.mockResolvedValue({ ok: true });
 
-		await getVideoThumbnail('https://www.youtube.com/watch?v=s1');
-		await getVideoThumbnail('https://www.youtube.com/watch?v=s2');
-		await getVideoThumbnail('https://www.youtube.com/watch?v=s3');
+		await getVideoThumbnail('https://www.youtube.com/watch?v=s1xxxxxxxxx');
+		await getVideoThumbnail('https://www.youtube.com/watch?v=s2xxxxxxxxx');
+		await getVideoThumbnail('https://www.youtube.com/watch?v=s3xxxxxxxxx');
 
-		const stats = getCacheStats();
+		const stats = await getCacheStats();
 		expect(stats.size).toBe(3);
 	});
 
@@ -257,26 +726,26 @@ describe('getCacheStats', () => {
 		mockFetch.mockResolvedValue({ ok: true });
 
 		const urls = [
-			'https://www.youtube.com/watch?v=k1',
-			'https://www.youtube.com/watch?v=k2',
+			'https://www.youtube.com/watch?v=k1xxxxxxxxx',
+			'https://www.youtube.com/watch?v=k2xxxxxxxxx',
 		];
 
 		for (const url of urls) {
 			await getVideoThumbnail(url);
 		}
 
-		const stats = getCacheStats();
-		expect(stats.keys).toContain(urls[0]);
-		expect(stats.keys).toContain(urls[1]);
+		const stats = await getCacheStats();
+		expect(stats.keys).toContain('youtube:youtube.com:k1xxxxxxxxx');
+		expect(stats.keys).toContain('youtube:youtube.com:k2xxxxxxxxx');
 	});
 
 	it('keys array is a snapshot, not a live reference', async () => {
 		mockFetch.mockResolvedValue({ ok: true });
 
-		await getVideoThumbnail('https://www.youtube.com/watch?v=snap');
-		const stats = getCacheStats();
+		await getVideoThumbnail('https://www.youtube.com/watch?v=snapxxxxxxx');
+		const stats = await getCacheStats();
 
-		clearThumbnailCache();
+		await clearThumbnailCache();
 
 		
 		expect(stats.size).toBe(1);
@@ -287,8 +756,8 @@ describe('getCacheStats', () => {
 describe('pruneExpiredCache', () => {
 	let mockFetch: ReturnType<typeof vi.fn>;
 
-	beforeEach(() => {
-		clearThumbnailCache();
+	beforeEach(async () => {
+		await clearThumbnailCache();
 		mockFetch = vi.fn();
 		vi.stubGlobal('fetch', mockFetch);
 		vi.useFakeTimers();
@@ -302,82 +771,82 @@ describe('pruneExpiredCache', () => {
 	it('removes expired entries', async () => {
 		mockFetch.mockResolvedValue({ ok: true });
 
-		await getVideoThumbnail('https://www.youtube.com/watch?v=old');
+		await getVideoThumbnail('https://www.youtube.com/watch?v=oldxxxxxxxx');
 
 		vi.advanceTimersByTime(CACHE_TTL + 1);
 
-		const removed = pruneExpiredCache();
+		const removed = await pruneExpiredCache();
 		expect(removed).toBe(1);
-		expect(getCacheStats().size).toBe(0);
+		expect((await getCacheStats()).size).toBe(0);
 	});
 
 	it('returns count of removed entries', async () => {
 		mockFetch.mockResolvedValue({ ok: true });
 
-		await getVideoThumbnail('https://www.youtube.com/watch?v=r1');
-		await getVideoThumbnail('https://www.youtube.com/watch?v=r2');
-		await getVideoThumbnail('https://www.youtube.com/watch?v=r3');
+		await getVideoThumbnail('https://www.youtube.com/watch?v=r1xxxxxxxxx');
+		await getVideoThumbnail('https://www.youtube.com/watch?v=r2xxxxxxxxx');
+		await getVideoThumbnail('https://www.youtube.com/watch?v=r3xxxxxxxxx');
 
 		vi.advanceTimersByTime(CACHE_TTL + 1);
 
-		const removed = pruneExpiredCache();
+		const removed = await pruneExpiredCache();
 		expect(removed).toBe(3);
 	});
 
 	it('leaves fresh entries intact', async () => {
 		mockFetch.mockResolvedValue({ ok: true });
 
-		await getVideoThumbnail('https://www.youtube.com/watch?v=fresh1');
+		await getVideoThumbnail('https://www.youtube.com/watch?v=fresh1xxxxx');
 
 		vi.advanceTimersByTime(CACHE_TTL - 1000);
 
-		const removed = pruneExpiredCache();
+		const removed = await pruneExpiredCache();
 		expect(removed).toBe(0);
-		expect(getCacheStats().size).toBe(1);
+		expect((await getCacheStats()).size).toBe(1);
 	});
 
 	it('removes only expired entries in mixed cache', async () => {
 		mockFetch.mockResolvedValue({ ok: true });
 
 		
-		await getVideoThumbnail('https://www.youtube.com/watch?v=old1');
+		await getVideoThumbnail('https://www.youtube.com/watch?v=old1xxxxxxx');
 
 		vi.advanceTimersByTime(CACHE_TTL - 500);
 
 		
-		await getVideoThumbnail('https://www.youtube.com/watch?v=new1');
+		await getVideoThumbnail('https://www.youtube.com/watch?v=new1xxxxxxx');
 
 		vi.advanceTimersByTime(1000); 
 
-		const removed = pruneExpiredCache();
+		const removed = await pruneExpiredCache();
 		expect(removed).toBe(1);
-		expect(getCacheStats().size).toBe(1);
-		expect(getCacheStats().keys).toContain('https://www.youtube.com/watch?v=new1');
+		expect((await getCacheStats()).size).toBe(1);
+		expect((await getCacheStats()).keys).toContain('youtube:youtube.com:new1xxxxxxx');
 	});
 
-	it('returns 0 when cache is empty', () => {
-		const removed = pruneExpiredCache();
+	it('returns 0 when cache is empty', async () => {
+		const removed = await pruneExpiredCache();
 		expect(removed).toBe(0);
 	});
 
 	it('returns 0 when all entries are fresh', async () => {
 		mockFetch.mockResolvedValue({ ok: true });
 
-		await getVideoThumbnail('https://www.youtube.com/watch?v=f1');
-		await getVideoThumbnail('https://www.youtube.com/watch?v=f2');
+		await getVideoThumbnail('https://www.youtube.com/watch?v=f1xxxxxxxxx');
+		await getVideoThumbnail('https://www.youtube.com/watch?v=f2xxxxxxxxx');
 
-		const removed = pruneExpiredCache();
+		const removed = await pruneExpiredCache();
 		expect(removed).toBe(0);
 	});
 
 	it('can be called multiple times safely', async () => {
 		mockFetch.mockResolvedValue({ ok: true });
 
-		await getVideoThumbnail('https://www.youtube.com/watch?v=multi');
+		await getVideoThumbnail('https://www.youtube.com/watch?v=multixxxxxx');
 		vi.advanceTimersByTime(CACHE_TTL + 1);
 
-		const first = pruneExpiredCache();
-		const second = pruneExpiredCache();
+		const first = await pruneExpiredCache();
+		const second = await pruneExpiredCache();
 
 		expect(first).toBe(1);
 		expect(second).toBe(0);
@@ -394,8 +863,8 @@ describe('CACHE_TTL', () => {
 describe('integration: full flow', () => {
 	let mockFetch: ReturnType<typeof vi.fn>;
 
-	beforeEach(() => {
-		clearThumbnailCache();
+	beforeEach(async () => {
+		await clearThumbnailCache();
 		mockFetch = vi.fn();
 		vi.stubGlobal('fetch', mockFetch);
 	});
@@ -406,19 +875,23 @@ describe('integration: full flow', () => {
 	});
 
 	it('detects platform, fetches, caches, and returns cached on second call (YouTube)', async () => {
-		mockFetch.mockResolvedValueOnce({ ok: true });
+		mockFetch
+			.mockResolvedValueOnce({ ok: true })
+			.mockResolvedValueOnce({ ok: false })
+			.mockResolvedValueOnce({ ok: false })
+			.mockResolvedValueOnce({ ok: false });
 
-		const first = await getVideoThumbnail('https://www.youtube.com/watch?v=integ1');
+		const first = await getVideoThumbnail('https://www.youtube.com/watch?v=integ1xxxxx');
 		expect(first).not.toBeNull();
 		expect(first?.platform).toBe('youtube');
 		expect(first?.cached).toBe(false);
 		expect(first?.url).toContain('integ1');
 
-		const second = await getVideoThumbnail('https://www.youtube.com/watch?v=integ1');
+		const second = await getVideoThumbnail('https://www.youtube.com/watch?v=integ1xxxxx');
 		expect(second?.cached).toBe(true);
 		expect(second?.url).toBe(first?.url);
 
-		expect(mockFetch).toHaveBeenCalledTimes(1);
+		expect(mockFetch).toHaveBeenCalledTimes(4);
 	});
 
 	it('detects platform, fetches, caches, and returns cached on second call (Vimeo)', async () => {
@@ -443,10 +916,12 @@ describe('integration: full flow', () => {
 	});
 
 	it('detects platform, fetches, caches, and returns cached on second call (PeerTube)', async () => {
-		mockFetch.mockResolvedValueOnce({
-			ok: true,
-			json: async () => ({ thumbnailPath: '/static/thumbs/pt.jpg' }),
-		});
+		mockFetch
+			.mockResolvedValueOnce({
+				ok: true,
+				json: async () => ({ thumbnailPath: '/static/thumbs/pt.jpg' }),
+			})
+			.mockResolvedValueOnce({ ok: false });
 
 		const first = await getVideoThumbnail('https://peer.example.org/videos/watch/aaa-bbb');
 		expect(first?.platform).toBe('peertube');
@@ -455,39 +930,42 @@ describe('integration: full flow', () => {
 		const second = await getVideoThumbnail('https://peer.example.org/videos/watch/aaa-bbb');
 		expect(second?.cached).toBe(true);
 
-		expect(mockFetch).toHaveBeenCalledTimes(1);
+		expect(mockFetch).toHaveBeenCalledTimes(2);
 	});
 
 	it('handles sequential calls to different platforms', async () => {
 		mockFetch
-			.mockResolvedValueOnce({ ok: true }) 
+			.mockResolvedValueOnce({ ok: true })
+			.mockResolvedValueOnce({ ok: false })
+			.mockResolvedValueOnce({ ok: false })
+			.mockResolvedValueOnce({ ok: false })
 			.mockResolvedValueOnce({
 				ok: true,
 				json: async () => ({ thumbnail_url: 'https://i.vimeocdn.com/v.jpg' }),
 			}); 
 
-		const yt = await getVideoThumbnail('https://www.youtube.com/watch?v=seq1');
-		const vim = await getVideoThumbnail('https://vimeo.com/seq2');
+		const yt = await getVideoThumbnail('https://www.youtube.com/watch?v=seq1xxxxxxx');
+		const vim = await getVideoThumbnail('https://vimeo.com/222222');
 
 		expect(yt?.platform).toBe('youtube');
 		expect(vim?.platform).toBe('vimeo');
-		expect(getCacheStats().size).toBe(2);
+		expect((await getCacheStats()).size).toBe(2);
 	});
 
 	it('cache survives across different platform calls', async () => {
 		mockFetch.mockResolvedValue({ ok: true });
 
-		await getVideoThumbnail('https://www.youtube.com/watch?v=surv1');
+		await getVideoThumbnail('https://www.youtube.com/watch?v=surv1xxxxxx');
 
 		mockFetch.mockResolvedValueOnce({
 			ok: true,
 			json: async () => ({ thumbnail_url: 'https://i.vimeocdn.com/v.jpg' }),
 		});
 
-		await getVideoThumbnail('https://vimeo.com/surv2');
+		await getVideoThumbnail('https://vimeo.com/333333');
 
 		
-		const cached = await getVideoThumbnail('https://www.youtube.com/watch?v=surv1');
+		const cached = await getVideoThumbnail('https://www.youtube.com/watch?v=surv1xxxxxx');
 		expect(cached?.cached).toBe(true);
 	});
 
@@ -496,46 +974,46 @@ describe('integration: full flow', () => {
 		mockFetch.mockResolvedValue({ ok: true });
 
 		
-		const first = await getVideoThumbnail('https://www.youtube.com/watch?v=cycle');
+		const first = await getVideoThumbnail('https://www.youtube.com/watch?v=cyclexxxxxx');
 		expect(first?.cached).toBe(false);
 
 		
-		const second = await getVideoThumbnail('https://www.youtube.com/watch?v=cycle');
+		const second = await getVideoThumbnail('https://www.youtube.com/watch?v=cyclexxxxxx');
 		expect(second?.cached).toBe(true);
 
 		
 		vi.advanceTimersByTime(CACHE_TTL + 1);
 
 		
-		const third = await getVideoThumbnail('https://www.youtube.com/watch?v=cycle');
+		const third = await getVideoThumbnail('https://www.youtube.com/watch?v=cyclexxxxxx');
 		expect(third?.cached).toBe(false);
 
-		expect(mockFetch).toHaveBeenCalledTimes(2);
+		expect(mockFetch).toHaveBeenCalledTimes(8);
 	});
 
 	it('pruneExpiredCache then getVideoThumbnail refetches', async () => {
 		vi.useFakeTimers();
 		mockFetch.mockResolvedValue({ ok: true });
 
-		await getVideoThumbnail('https://www.youtube.com/watch?v=prune');
+		await getVideoThumbnail('https://www.youtube.com/watch?v=prunexxxxxx');
 		vi.advanceTimersByTime(CACHE_TTL + 1);
 
-		pruneExpiredCache();
-		expect(getCacheStats().size).toBe(0);
+		await pruneExpiredCache();
+		expect((await getCacheStats()).size).toBe(0);
 
-		const result = await getVideoThumbnail('https://www.youtube.com/watch?v=prune');
+		const result = await getVideoThumbnail('https://www.youtube.com/watch?v=prunexxxxxx');
 		expect(result?.cached).toBe(false);
-		expect(mockFetch).toHaveBeenCalledTimes(2);
+		expect(mockFetch).toHaveBeenCalledTimes(8);
 	});
 
 	it('clearThumbnailCache forces fresh fetch', async () => {
 		mockFetch.mockResolvedValue({ ok: true });
 
-		await getVideoThumbnail('https://www.youtube.com/watch?v=clr');
-		clearThumbnailCache();
+		await getVideoThumbnail('https://www.youtube.com/watch?v=clrxxxxxxxx');
+		await clearThumbnailCache();
 
-		const result = await getVideoThumbnail('https://www.youtube.com/watch?v=clr');
+		const result = await getVideoThumbnail('https://www.youtube.com/watch?v=clrxxxxxxxx');
 		expect(result?.cached).toBe(false);
-		expect(mockFetch).toHaveBeenCalledTimes(2);
+		expect(mockFetch).toHaveBeenCalledTimes(8);
 	});
 });
@@ -0,0 +1,97 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { configureHttpClient, resetHttpClient, sendRequest } from '../src/client.js';
+
+describe('sendRequest', () => {
+	let mockFetch: ReturnType<typeof vi.fn>;
+
+	beforeEach(() => {
+		mockFetch = vi.fn().mockResolvedValue({ ok: true });
+		vi.stubGlobal('fetch', mockFetch);
+	});
+
+	afterEach(() => {
+		resetHttpClient();
+		vi.restoreAllMocks();
+	});
+
+	it('uses the global fetch and leaves the request untouched by default', async () => {
+		const init = { headers: { Accept: 'application/json' } };
+
+		await sendRequest('https://x.test/a', init);
+
+		expect(mockFetch).toHaveBeenCalledWith('https://x.test/a', init);
+	});
+
+	it('uses a configured fetch implementation instead of the global one', async () => {
+		const custom = vi.fn().mockResolvedValue({ ok: true, status: 204 });
+		configureHttpClient({ fetch: custom });
+
+		const res = await sendRequest('https://x.test/a', {});
+
+		expect(res.status).toBe(204);
+		expect(custom).toHaveBeenCalledWith('https://x.test/a', {});
+		expect(mockFetch).not.toHaveBeenCalled();
+	});
+
+	it('falls back to the given transport, not the configured fetch', async () => {
+		const transport = vi.fn().mockResolvedValue({ ok: true, status: 200 });
+		const custom = vi.fn().mockResolvedValue({ ok: true, status: 200 });
+
+		await sendRequest('https://x.test/a', {}, undefined, transport);
+		configureHttpClient({ fetch: custom });
+		await sendRequest('https://x.test/b', {}, undefined, transport);
+
+		expect(transport).toHaveBeenCalledTimes(1);
+		expect(transport).toHaveBeenCalledWith('https://x.test/a', {});
+		expect(custom).toHaveBeenCalledWith('https://x.test/b', {});
+		expect(mockFetch).not.toHaveBeenCalled();
+	});
+
+	it('adds default headers beneath the request headers', async () => {
+		configureHttpClient({ headers: { 'User-Agent': 'thumbs/1.0', Accept: '*/*' } });
+
+		await sendRequest('https://x.test/a', { headers: { accept: 'application/json' } });
+
+		expect(mockFetch).toHaveBeenCalledWith('https://x.test/a', {
+			headers: { 'User-Agent': 'thumbs/1.0', accept: 'application/json' },
+		});
+	});
+
+	it('merges headers across configure calls', async () => {
+		configureHttpClient({ headers: { 'User-Agent': 'thumbs/1.0' } });
+		configureHttpClient({ headers: { 'X-Trace': '1' } });
+		configureHttpClient({ onRequest: () => {} });
+
+		await sendRequest('https://x.test/a', {});
+
+		expect(mockFetch).toHaveBeenCalledWith('https://x.test/a', {
+			headers: { 'User-Agent': 'thumbs/1.0', 'X-Trace': '1' },
+		});
+	});
+
+	it('lets the request hook replace the request', async () => {
+		const dispatcher = {};
+		configureHttpClient({
+			headers: { 'User-Agent': 'thumbs/1.0' },
+			onRequest: async (_url, init) => ({ ...init, dispatcher }) as RequestInit,
+		});
+
+		await sendRequest('https://x.test/a', { method: 'GET' });
+
+		expect(mockFetch).toHaveBeenCalledWith('https://x.test/a', {
+			method: 'GET',
+			headers: { 'User-Agent': 'thumbs/1.0' },
+			dispatcher,
+		});
+	});
+
+	it('keeps the request when the hook returns nothing', async () => {
+		const onRequest = vi.fn();
+		configureHttpClient({ onRequest });
+
+		await sendRequest('https://x.test/a', { method: 'GET' });
+
+		expect(onRequest).toHaveBeenCalledWith('https://x.test/a', { method: 'GET' });
+		expect(mockFetch).toHaveBeenCalledWith('https://x.test/a', { method: 'GET' });
+	});
+});
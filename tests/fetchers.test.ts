@@ -1,9 +1,43 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { fetchYouTubeThumbnail, fetchPeerTubeThumbnail, fetchVimeoThumbnail } from '../src/fetchers.js';
+import {
+	fetchYouTubeThumbnail,
+	fetchPeerTubeThumbnail,
+	fetchVimeoThumbnail,
+	fetchDailymotionThumbnail,
+	fetchTwitchThumbnail,
+} from '../src/fetchers.js';
+import { configurePeerTube, resetPeerTubeConfig } from '../src/peertube.js';
+import { configureRequestGuard, resetRequestGuard } from '../src/guard.js';
+import { configureTwitch, resetTwitchConfig } from '../src/twitch.js';
+import { configureYouTube, resetYouTubeConfig } from '../src/youtube.js';
+import { configureRetries, resetRetryConfig } from '../src/retry.js';
+import { configureHttpClient, resetHttpClient } from '../src/client.js';
+import { flush, hangingFetch } from './helpers.js';
+
+function jpegResponse(width: number, height: number): Response {
+	const bytes = new Uint8Array([
+		0xff, 0xd8,
+		0xff, 0xe0, 0x00, 0x04, 0x00, 0x00,
+		0xff, 0xc0, 0x00, 0x11, 0x08, height >> 8, height & 0xff, width >> 8, width & 0xff, 0x03,
+	]);
+	return new Response(bytes, { status: 200 });
+}
 
 describe('fetchYouTubeThumbnail', () => {
 	let mockFetch: ReturnType<typeof vi.fn>;
 
+	function serve(responses: Record<string, () => unknown>) {
+		mockFetch.mockImplementation(async (url: string) => {
+			const file = url.split('/').pop() ?? '';
+			return (responses[file] ?? (() => ({ ok: false })))();
+		});
+	}
+
+	const probe = (url: string) => [
+		url,
+		{ headers: { Range: 'bytes=0-32767' }, signal: expect.any(AbortSignal), redirect: 'manual' },
+	];
+
 	beforeEach(() => {
 		mockFetch = vi.fn();
 		vi.stubGlobal('fetch', mockFetch);
@@ -11,71 +45,110 @@ describe('fetchYouTubeThumbnail', () => {
 
 	afterEach(() => {
 		vi.restoreAllMocks();
+		resetYouTubeConfig();
 	});
 
 	it('returns maxresdefault when available', async () => {
-		mockFetch.mockResolvedValueOnce({ ok: true });
+		serve({ 'maxresdefault.jpg': () => ({ ok: true }), 'sddefault.jpg': () => ({ ok: true }) });
 
-		const result = await fetchYouTubeThumbnail('https://www.youtube.com/watch?v=abc123');
+		const result = await fetchYouTubeThumbnail('https://www.youtube.com/watch?v=abc123xxxxx');
 
 		expect(result).toEqual({
-			url: 'https://img.youtube.com/vi/abc123/maxresdefault.jpg',
+			url: 'https://img.youtube.com/vi/abc123xxxxx/maxresdefault.jpg',
 			width: 1280,
 			height: 720,
+			format: 'jpeg',
 			platform: 'youtube',
 			cached: false,
+			variants: [
+				{ url: 'https://img.youtube.com/vi/abc123xxxxx/default.jpg', width: 120, height: 90, format: 'jpeg', contentAspect: '16:9' },
+				{ url: 'https://img.youtube.com/vi/abc123xxxxx/mqdefault.jpg', width: 320, height: 180, format: 'jpeg' },
+				{ url: 'https://img.youtube.com/vi/abc123xxxxx/hqdefault.jpg', width: 480, height: 360, format: 'jpeg', contentAspect: '16:9' },
+				{ url: 'https://img.youtube.com/vi/abc123xxxxx/sddefault.jpg', width: 640, height: 480, format: 'jpeg', contentAspect: '16:9' },
+				{ url: 'https://img.youtube.com/vi/abc123xxxxx/maxresdefault.jpg', width: 1280, height: 720, format: 'jpeg' },
+			],
 		});
-		expect(mockFetch).toHaveBeenCalledTimes(1);
-		expect(mockFetch).toHaveBeenCalledWith(
-			'https://img.youtube.com/vi/abc123/maxresdefault.jpg',
-			{ method: 'HEAD' },
-		);
+		expect(mockFetch.mock.calls[0]).toEqual(probe('https://img.youtube.com/vi/abc123xxxxx/maxresdefault.jpg'));
+	});
+
+	it('leaves sddefault out of the variants when YouTube does not serve it', async () => {
+		serve({ 'maxresdefault.jpg': () => ({ ok: true }) });
+
+		const result = await fetchYouTubeThumbnail('https://www.youtube.com/watch?v=abc123xxxxx');
+
+		expect(mockFetch.mock.calls).toContainEqual(probe('https://img.youtube.com/vi/abc123xxxxx/sddefault.jpg'));
+		expect(result?.variants.map((v) => v.url)).toEqual([
+			'https://img.youtube.com/vi/abc123xxxxx/default.jpg',
+			'https://img.youtube.com/vi/abc123xxxxx/mqdefault.jpg',
+			'https://img.youtube.com/vi/abc123xxxxx/hqdefault.jpg',
+			'https://img.youtube.com/vi/abc123xxxxx/maxresdefault.jpg',
+		]);
+	});
+
+	it('falls back to sddefault when maxresdefault fails', async () => {
+		serve({ 'sddefault.jpg': () => jpegResponse(640, 480) });
+
+		const result = await fetchYouTubeThumbnail('https://www.youtube.com/watch?v=abc123xxxxx');
+
+		expect(result).toMatchObject({
+			url: 'https://img.youtube.com/vi/abc123xxxxx/sddefault.jpg',
+			width: 640,
+			height: 480,
+		});
+		expect(result?.variants.map((v) => v.url)).toEqual([
+			'https://img.youtube.com/vi/abc123xxxxx/default.jpg',
+			'https://img.youtube.com/vi/abc123xxxxx/mqdefault.jpg',
+			'https://img.youtube.com/vi/abc123xxxxx/hqdefault.jpg',
+			'https://img.youtube.com/vi/abc123xxxxx/sddefault.jpg',
+		]);
+		expect(mockFetch.mock.calls.filter(([url]) => url.endsWith('sddefault.jpg'))).toHaveLength(1);
 	});
 
 	it('falls back to hqdefault when maxresdefault fails', async () => {
-		mockFetch
-			.mockResolvedValueOnce({ ok: false })
-			.mockResolvedValueOnce({ ok: true });
+		serve({ 'hqdefault.jpg': () => ({ ok: true }) });
 
-		const result = await fetchYouTubeThumbnail('https://www.youtube.com/watch?v=abc123');
+		const result = await fetchYouTubeThumbnail('https://www.youtube.com/watch?v=abc123xxxxx');
 
 		expect(result).toEqual({
-			url: 'https://img.youtube.com/vi/abc123/hqdefault.jpg',
+			url: 'https://img.youtube.com/vi/abc123xxxxx/hqdefault.jpg',
 			width: 480,
 			height: 360,
+			format: 'jpeg',
 			platform: 'youtube',
 			cached: false,
+			variants: [
+				{ url: 'https://img.youtube.com/vi/abc123xxxxx/default.jpg', width: 120, height: 90, format: 'jpeg', contentAspect: '16:9' },
+				{ url: 'https://img.youtube.com/vi/abc123xxxxx/mqdefault.jpg', width: 320, height: 180, format: 'jpeg' },
+				{ url: 'https://img.youtube.com/vi/abc123xxxxx/hqdefault.jpg', width: 480, height: 360, format: 'jpeg', contentAspect: '16:9' },
+			],
 		});
-		expect(mockFetch).toHaveBeenCalledTimes(2);
 	});
 
 	it('falls back to mqdefault when both maxres and hq fail', async () => {
-		mockFetch
-			.mockResolvedValueOnce({ ok: false })
-			.mockResolvedValueOnce({ ok: false })
-			.mockResolvedValueOnce({ ok: true });
+		serve({ 'mqdefault.jpg': () => ({ ok: true }) });
 
-		const result = await fetchYouTubeThumbnail('https://www.youtube.com/watch?v=abc123');
+		const result = await fetchYouTubeThumbnail('https://www.youtube.com/watch?v=abc123xxxxx');
 
 		expect(result).toEqual({
-			url: 'https://img.youtube.com/vi/abc123/mqdefault.jpg',
+			url: 'https://img.youtube.com/vi/abc123xxxxx/mqdefault.jpg',
 			width: 320,
 			height: 180,
+			format: 'jpeg',
 			platform: 'youtube',
 			cached: false,
+			variants: [
+				{ url: 'https://img.youtube.com/vi/abc123xxxxx/default.jpg', width: 120, height: 90, format: 'jpeg', contentAspect: '16:9' },
+				{ url: 'https://img.youtube.com/vi/abc123xxxxx/mqdefault.jpg', width: 320, height: 180, format: 'jpeg' },
+			],
 		});
-		expect(mockFetch).toHaveBeenCalledTimes(3);
 	});
 
 	it('returns null when all resolutions fail', async () => {
-		mockFetch
-			.mockResolvedValueOnce({ ok: false })
-			.mockResolvedValueOnce({ ok: false })
-			.mockResolvedValueOnce({ ok: false });
+		serve({});
 
-		const result = await fetchYouTubeThumbnail('https://www.youtube.com/watch?v=abc123');
+		const result = await fetchYouTubeThumbnail('https://www.youtube.com/watch?v=abc123xxxxx');
 		expect(result).toBeNull();
-		expect(mockFetch).toHaveBeenCalledTimes(3);
+		expect(mockFetch).toHaveBeenCalledTimes(8);
 	});
 
 	it('returns null for invalid YouTube URL (no video ID)', async () => {
@@ -87,48 +160,199 @@ describe('fetchYouTubeThumbnail', () => {
 	it('handles fetch throwing an error', async () => {
 		mockFetch.mockRejectedValue(new Error('Network error'));
 
-		const result = await fetchYouTubeThumbnail('https://www.youtube.com/watch?v=abc123');
+		const result = await fetchYouTubeThumbnail('https://www.youtube.com/watch?v=abc123xxxxx');
 		expect(result).toBeNull();
 	});
 
 	it('continues after one fetch throws and next succeeds', async () => {
-		mockFetch
-			.mockRejectedValueOnce(new Error('timeout'))
-			.mockResolvedValueOnce({ ok: true });
+		serve({
+			'maxresdefault.jpg': () => Promise.reject(new Error('timeout')),
+			'hqdefault.jpg': () => ({ ok: true }),
+		});
 
-		const result = await fetchYouTubeThumbnail('https://www.youtube.com/watch?v=abc123');
+		const result = await fetchYouTubeThumbnail('https://www.youtube.com/watch?v=abc123xxxxx');
 
-		expect(result).toEqual({
-			url: 'https://img.youtube.com/vi/abc123/hqdefault.jpg',
-			width: 480,
-			height: 360,
-			platform: 'youtube',
-			cached: false,
+		expect(result?.url).toBe('https://img.youtube.com/vi/abc123xxxxx/hqdefault.jpg');
+	});
+
+	it('adds vi_webp variants when the WebP image exists', async () => {
+		serve({
+			'hqdefault.jpg': () => ({ ok: true }),
+			'hqdefault.webp': () => ({ ok: true }),
 		});
+
+		const result = await fetchYouTubeThumbnail('https://www.youtube.com/watch?v=abc123xxxxx');
+
+		expect(mockFetch.mock.calls).toContainEqual(probe('https://i.ytimg.com/vi_webp/abc123xxxxx/hqdefault.webp'));
+		expect(result?.format).toBe('jpeg');
+		expect(result?.variants.map((v) => [v.url, v.format])).toEqual([
+			['https://img.youtube.com/vi/abc123xxxxx/default.jpg', 'jpeg'],
+			['https://i.ytimg.com/vi_webp/abc123xxxxx/default.webp', 'webp'],
+			['https://img.youtube.com/vi/abc123xxxxx/mqdefault.jpg', 'jpeg'],
+			['https://i.ytimg.com/vi_webp/abc123xxxxx/mqdefault.webp', 'webp'],
+			['https://img.youtube.com/vi/abc123xxxxx/hqdefault.jpg', 'jpeg'],
+			['https://i.ytimg.com/vi_webp/abc123xxxxx/hqdefault.webp', 'webp'],
+		]);
 	});
 
 	it('uses correct video ID from youtu.be short link', async () => {
-		mockFetch.mockResolvedValueOnce({ ok: true });
+		serve({ 'maxresdefault.jpg': () => ({ ok: true }) });
+
+		const result = await fetchYouTubeThumbnail('https://youtu.be/shortIdxxxx');
+
+		expect(result?.url).toBe('https://img.youtube.com/vi/shortIdxxxx/maxresdefault.jpg');
+	});
 
-		const result = await fetchYouTubeThumbnail('https://youtu.be/shortId');
+	it('reports the dimensions read from the image header', async () => {
+		serve({ 'maxresdefault.jpg': () => jpegResponse(1920, 1080) });
 
-		expect(result?.url).toBe('https://img.youtube.com/vi/shortId/maxresdefault.jpg');
+		const result = await fetchYouTubeThumbnail('https://www.youtube.com/watch?v=abc123xxxxx');
+
+		expect(result?.width).toBe(1920);
+		expect(result?.height).toBe(1080);
+		expect(result?.variants.at(-1)).toEqual({
+			url: 'https://img.youtube.com/vi/abc123xxxxx/maxresdefault.jpg',
+			width: 1920,
+			height: 1080,
+			format: 'jpeg',
+		});
+	});
+
+	it('skips the 120x90 placeholder served in place of a missing size', async () => {
+		serve({
+			'maxresdefault.jpg': () => jpegResponse(120, 90),
+			'hqdefault.jpg': () => jpegResponse(480, 360),
+		});
+
+		const result = await fetchYouTubeThumbnail('https://www.youtube.com/watch?v=abc123xxxxx');
+
+		expect(result?.url).toBe('https://img.youtube.com/vi/abc123xxxxx/hqdefault.jpg');
+	});
+
+	it('returns null when every size is a placeholder', async () => {
+		mockFetch.mockImplementation(async () => jpegResponse(120, 90));
+
+		const result = await fetchYouTubeThumbnail('https://www.youtube.com/watch?v=abc123xxxxx');
+		expect(result).toBeNull();
 	});
 
 	it('uses correct video ID from /shorts/ URL', async () => {
-		mockFetch.mockResolvedValueOnce({ ok: true });
+		serve({ 'maxresdefault.jpg': () => ({ ok: true }) });
+
+		const result = await fetchYouTubeThumbnail('https://www.youtube.com/shorts/shortsIdxxx');
+
+		expect(result?.url).toBe('https://img.youtube.com/vi/shortsIdxxx/maxresdefault.jpg');
+	});
+
+	it('marks every variant of a Short as pillarboxed vertical content', async () => {
+		serve({ 'maxresdefault.jpg': () => ({ ok: true }), 'sddefault.jpg': () => ({ ok: true }) });
 
-		const result = await fetchYouTubeThumbnail('https://www.youtube.com/shorts/shortsId');
+		const result = await fetchYouTubeThumbnail('https://www.youtube.com/shorts/shortsIdxxx');
 
-		expect(result?.url).toBe('https://img.youtube.com/vi/shortsId/maxresdefault.jpg');
+		expect(result?.variants.map((v) => v.contentAspect)).toEqual(['9:16', '9:16', '9:16', '9:16', '9:16']);
 	});
 
 	it('always returns cached: false', async () => {
-		mockFetch.mockResolvedValueOnce({ ok: true });
+		serve({ 'maxresdefault.jpg': () => ({ ok: true }) });
 
-		const result = await fetchYouTubeThumbnail('https://www.youtube.com/watch?v=abc');
+		const result = await fetchYouTubeThumbnail('https://www.youtube.com/watch?v=abcxxxxxxxx');
 		expect(result?.cached).toBe(false);
 	});
+
+	it('rejects with the abort reason when the caller aborts', async () => {
+		mockFetch.mockImplementation(hangingFetch);
+		const controller = new AbortController();
+
+		const lookup = fetchYouTubeThumbnail('https://www.youtube.com/watch?v=abc123xxxxx', { signal: controller.signal });
+		controller.abort(new Error('navigation'));
+
+		await expect(lookup).rejects.toThrow('navigation');
+	});
+
+	describe('parallel probing', () => {
+		let pending: Map<string, { resolve: (value: unknown) => void; signal: AbortSignal }>;
+
+		beforeEach(() => {
+			pending = new Map();
+			mockFetch.mockImplementation(
+				(url: string, init: RequestInit) =>
+					new Promise((resolve, reject) => {
+						const signal = init.signal as AbortSignal;
+						signal.addEventListener('abort', () => reject(signal.reason));
+						pending.set(url.split('/').pop() ?? '', { resolve, signal });
+					}),
+			);
+		});
+
+		it('issues every probe before any response arrives', async () => {
+			const lookup = fetchYouTubeThumbnail('https://www.youtube.com/watch?v=abc123xxxxx');
+			await flush();
+
+			expect([...pending.keys()]).toEqual([
+				'maxresdefault.jpg',
+				'maxresdefault.webp',
+				'sddefault.jpg',
+				'sddefault.webp',
+				'hqdefault.jpg',
+				'hqdefault.webp',
+				'mqdefault.jpg',
+				'mqdefault.webp',
+			]);
+
+			for (const { resolve } of pending.values()) resolve({ ok: false });
+			expect(await lookup).toBeNull();
+		});
+
+		it('waits for a higher-priority size even when a smaller one answers first', async () => {
+			const lookup = fetchYouTubeThumbnail('https://www.youtube.com/watch?v=abc123xxxxx');
+			await flush();
+
+			pending.get('hqdefault.jpg')?.resolve({ ok: true });
+			pending.get('hqdefault.webp')?.resolve({ ok: false });
+			pending.get('sddefault.jpg')?.resolve({ ok: false });
+			await flush();
+			pending.get('maxresdefault.jpg')?.resolve({ ok: true });
+			pending.get('maxresdefault.webp')?.resolve({ ok: false });
+
+			expect((await lookup)?.url).toBe('https://img.youtube.com/vi/abc123xxxxx/maxresdefault.jpg');
+		});
+
+		it('aborts lower-priority probes once the best size succeeds', async () => {
+			const lookup = fetchYouTubeThumbnail('https://www.youtube.com/watch?v=abc123xxxxx');
+			await flush();
+
+			pending.get('maxresdefault.jpg')?.resolve({ ok: true });
+			pending.get('maxresdefault.webp')?.resolve({ ok: true });
+			pending.get('sddefault.jpg')?.resolve({ ok: false });
+
+			expect((await lookup)?.url).toBe('https://img.youtube.com/vi/abc123xxxxx/maxresdefault.jpg');
+			expect(pending.get('hqdefault.jpg')?.signal.aborted).toBe(true);
+			expect(pending.get('mqdefault.webp')?.signal.aborted).toBe(true);
+		});
+
+		it('limits the number of probe requests in flight', async () => {
+			configureYouTube({ probeConcurrency: 1 });
+
+			const lookup = fetchYouTubeThumbnail('https://www.youtube.com/watch?v=abc123xxxxx');
+			const answers: Array<[string, boolean]> = [
+				['maxresdefault.jpg', false],
+				['maxresdefault.webp', false],
+				['sddefault.jpg', false],
+				['sddefault.webp', false],
+				['hqdefault.jpg', true],
+				['hqdefault.webp', false],
+			];
+
+			for (const [index, [file, ok]] of answers.entries()) {
+				await flush();
+				expect(mockFetch).toHaveBeenCalledTimes(index + 1);
+				expect([...pending.keys()].at(-1)).toBe(file);
+				pending.get(file)?.resolve({ ok });
+			}
+
+			expect((await lookup)?.url).toBe('https://img.youtube.com/vi/abc123xxxxx/hqdefault.jpg');
+		});
+	});
 });
 
 describe('fetchPeerTubeThumbnail', () => {
@@ -137,10 +361,14 @@ describe('fetchPeerTubeThumbnail', () => {
 	beforeEach(() => {
 		mockFetch = vi.fn();
 		vi.stubGlobal('fetch', mockFetch);
+		configurePeerTube({ instances: ['peertube.example.com', 'instance.org', 'pt.example.com'] });
+		configureRequestGuard({ lookup: async () => [{ address: '93.184.216.34', family: 4 }] });
 	});
 
 	afterEach(() => {
 		vi.restoreAllMocks();
+		resetPeerTubeConfig();
+		resetRequestGuard();
 	});
 
 	it('extracts UUID from /videos/watch/ and calls correct API URL', async () => {
@@ -153,17 +381,66 @@ describe('fetchPeerTubeThumbnail', () => {
 
 		expect(mockFetch).toHaveBeenCalledWith(
 			'https://peertube.example.com/api/v1/videos/abc-123',
-			{ headers: { Accept: 'application/json' } },
+			{ headers: { Accept: 'application/json' }, redirect: 'manual' },
 		);
 		expect(result).toEqual({
 			url: 'https://peertube.example.com/static/thumbnails/abc-123.jpg',
 			width: 560,
 			height: 315,
+			format: 'jpeg',
 			platform: 'peertube',
 			cached: false,
+			variants: [
+				{ url: 'https://peertube.example.com/static/thumbnails/abc-123.jpg', width: 560, height: 315, format: 'jpeg' },
+			],
 		});
 	});
 
+	it('reads the real thumbnail size from the image', async () => {
+		mockFetch
+			.mockResolvedValueOnce({
+				ok: true,
+				json: async () => ({ thumbnailPath: '/static/thumbnails/abc-123.jpg' }),
+			})
+			.mockResolvedValueOnce(jpegResponse(280, 158));
+
+		const result = await fetchPeerTubeThumbnail('https://peertube.example.com/w/abc-123');
+
+		expect(mockFetch).toHaveBeenLastCalledWith(
+			'https://peertube.example.com/static/thumbnails/abc-123.jpg',
+			{ headers: { Range: 'bytes=0-32767' }, redirect: 'manual' },
+		);
+		expect(result).toMatchObject({ width: 280, height: 158 });
+		expect(result?.variants).toEqual([
+			{ url: 'https://peertube.example.com/static/thumbnails/abc-123.jpg', width: 280, height: 158, format: 'jpeg' },
+		]);
+	});
+
+	it('rejects when the caller aborts a slow instance', async () => {
+		mockFetch.mockImplementation(hangingFetch);
+		const controller = new AbortController();
+
+		const lookup = fetchPeerTubeThumbnail('https://peertube.example.com/w/abc-123', { signal: controller.signal });
+		controller.abort(new Error('client went away'));
+
+		await expect(lookup).rejects.toThrow('client went away');
+	});
+
+	it('rejects with a TimeoutError once timeoutMs elapses', async () => {
+		mockFetch.mockImplementation(hangingFetch);
+
+		await expect(
+			fetchPeerTubeThumbnail('https://peertube.example.com/w/abc-123', { timeoutMs: 5 }),
+		).rejects.toMatchObject({ name: 'TimeoutError' });
+	});
+
+	it('treats a per-request timeout as a failed lookup', async () => {
+		mockFetch.mockImplementation(hangingFetch);
+
+		const result = await fetchPeerTubeThumbnail('https://peertube.example.com/w/abc-123', { requestTimeoutMs: 5 });
+		expect(result).toBeNull();
+	});
+
 	it('extracts UUID from /w/ short path', async () => {
 		mockFetch.mockResolvedValueOnce({
 			ok: true,
@@ -174,7 +451,7 @@ describe('fetchPeerTubeThumbnail', () => {
 
 		expect(mockFetch).toHaveBeenCalledWith(
 			'https://instance.org/api/v1/videos/def-456',
-			{ headers: { Accept: 'application/json' } },
+			{ headers: { Accept: 'application/json' }, redirect: 'manual' },
 		);
 		expect(result?.url).toBe('https://instance.org/thumb.jpg');
 	});
@@ -199,6 +476,27 @@ describe('fetchPeerTubeThumbnail', () => {
 		expect(result?.url).toBe('https://pt.example.com/static/previews/video.jpg');
 	});
 
+	it('collects thumbnails, previews and legacy paths as variants', async () => {
+		mockFetch.mockResolvedValueOnce({
+			ok: true,
+			json: async () => ({
+				thumbnailPath: '/lazy-static/thumbnails/a.jpg',
+				previewPath: '/lazy-static/previews/a.jpg',
+				thumbnails: [{ path: '/lazy-static/thumbnails/a-280.jpg', width: 280, height: 157 }],
+				previews: [{ fileUrl: 'https://cdn.example.com/previews/a-1280.webp', width: 1280, height: 720 }],
+			}),
+		});
+
+		const result = await fetchPeerTubeThumbnail('https://pt.example.com/w/uuid-variants');
+
+		expect(result?.variants).toEqual([
+			{ url: 'https://pt.example.com/lazy-static/thumbnails/a-280.jpg', width: 280, height: 157, format: 'jpeg' },
+			{ url: 'https://pt.example.com/lazy-static/thumbnails/a.jpg', width: 560, height: 315, format: 'jpeg' },
+			{ url: 'https://pt.example.com/lazy-static/previews/a.jpg', width: 850, height: 480, format: 'jpeg' },
+			{ url: 'https://cdn.example.com/previews/a-1280.webp', width: 1280, height: 720, format: 'webp' },
+		]);
+	});
+
 	it('returns null when API returns neither thumbnailPath nor previewPath', async () => {
 		mockFetch.mockResolvedValueOnce({
 			ok: true,
@@ -252,6 +550,53 @@ describe('fetchPeerTubeThumbnail', () => {
 		const result = await fetchPeerTubeThumbnail('not-a-url');
 		expect(result).toBeNull();
 	});
+
+	it('does not query instances outside the allowlist', async () => {
+		const result = await fetchPeerTubeThumbnail('https://example.com/w/anything');
+		expect(result).toBeNull();
+		expect(mockFetch).not.toHaveBeenCalled();
+	});
+
+	it('refuses instances that resolve to private addresses', async () => {
+		configureRequestGuard({ lookup: async () => [{ address: '10.0.0.5', family: 4 }] });
+
+		const result = await fetchPeerTubeThumbnail('https://pt.example.com/videos/watch/uuid-9');
+		expect(result).toBeNull();
+		expect(mockFetch).not.toHaveBeenCalled();
+	});
+
+	it('verifies unknown instances via nodeinfo when enabled', async () => {
+		configurePeerTube({ verify: true });
+		mockFetch
+			.mockResolvedValueOnce({
+				ok: true,
+				json: async () => ({
+					links: [{
+						rel: 'http://nodeinfo.diaspora.software/ns/schema/2.0',
+						href: 'https://tube.other.org/nodeinfo/2.0.json',
+					}],
+				}),
+			})
+			.mockResolvedValueOnce({
+				ok: true,
+				json: async () => ({ software: { name: 'peertube', version: '6.0.0' } }),
+			})
+			.mockResolvedValueOnce({
+				ok: true,
+				json: async () => ({ thumbnailPath: '/thumb.jpg' }),
+			})
+			.mockResolvedValueOnce({ ok: false });
+
+		const result = await fetchPeerTubeThumbnail('https://tube.other.org/w/uuid-8');
+
+		expect(mockFetch.mock.calls.map((call) => call[0])).toEqual([
+			'https://tube.other.org/.well-known/nodeinfo',
+			'https://tube.other.org/nodeinfo/2.0.json',
+			'https://tube.other.org/api/v1/videos/uuid-8',
+			'https://tube.other.org/thumb.jpg',
+		]);
+		expect(result?.url).toBe('https://tube.other.org/thumb.jpg');
+	});
 });
 
 describe('fetchVimeoThumbnail', () => {
@@ -264,6 +609,20 @@ describe('fetchVimeoThumbnail', () => {
 
 	afterEach(() => {
 		vi.restoreAllMocks();
+		resetRetryConfig();
+	});
+
+	it('retries rate-limited requests honouring Retry-After', async () => {
+		configureRetries({ platforms: { vimeo: { baseDelayMs: 1 } } });
+		mockFetch
+			.mockResolvedValueOnce(new Response(null, { status: 429, headers: { 'Retry-After': '0' } }))
+			.mockResolvedValueOnce(new Response(null, { status: 503 }))
+			.mockResolvedValueOnce(Response.json({ thumbnail_url: 'https://i.vimeocdn.com/video/retry_640.jpg' }));
+
+		const result = await fetchVimeoThumbnail('https://vimeo.com/123456');
+
+		expect(result?.url).toBe('https://i.vimeocdn.com/video/retry_640.jpg');
+		expect(mockFetch).toHaveBeenCalledTimes(3);
 	});
 
 	it('calls oEmbed API with encoded URL', async () => {
@@ -281,10 +640,45 @@ describe('fetchVimeoThumbnail', () => {
 
 		expect(mockFetch).toHaveBeenCalledWith(
 			`https://vimeo.com/api/oembed.json?url=${encodeURIComponent(videoUrl)}`,
-			{ headers: { Accept: 'application/json' } },
+			{ headers: { Accept: 'application/json' }, redirect: 'manual' },
+		);
+	});
+
+	it('passes the unlisted hash through to oEmbed', async () => {
+		mockFetch.mockResolvedValueOnce({
+			ok: true,
+			json: async () => ({ thumbnail_url: 'https://i.vimeocdn.com/video/private.jpg' }),
+		});
+
+		const result = await fetchVimeoThumbnail('https://player.vimeo.com/video/123456?h=a1b2c3d4e5&autoplay=1');
+
+		expect(mockFetch).toHaveBeenCalledWith(
+			`https://vimeo.com/api/oembed.json?url=${encodeURIComponent('https://vimeo.com/123456/a1b2c3d4e5')}`,
+			{ headers: { Accept: 'application/json' }, redirect: 'manual' },
+		);
+		expect(result?.url).toBe('https://i.vimeocdn.com/video/private.jpg');
+	});
+
+	it('normalizes showcase URLs before calling oEmbed', async () => {
+		mockFetch.mockResolvedValueOnce({
+			ok: true,
+			json: async () => ({ thumbnail_url: 'https://i.vimeocdn.com/video/thumb.jpg' }),
+		});
+
+		await fetchVimeoThumbnail('https://vimeo.com/showcase/9876/video/123456');
+
+		expect(mockFetch).toHaveBeenCalledWith(
+			`https://vimeo.com/api/oembed.json?url=${encodeURIComponent('https://vimeo.com/123456')}`,
+			{ headers: { Accept: 'application/json' }, redirect: 'manual' },
 		);
 	});
 
+	it('returns null without fetching for URLs with no video id', async () => {
+		const result = await fetchVimeoThumbnail('https://vimeo.com/channels/staffpicks');
+		expect(result).toBeNull();
+		expect(mockFetch).not.toHaveBeenCalled();
+	});
+
 	it('returns thumbnail with provided dimensions', async () => {
 		mockFetch.mockResolvedValueOnce({
 			ok: true,
@@ -301,11 +695,35 @@ describe('fetchVimeoThumbnail', () => {
 			url: 'https://i.vimeocdn.com/video/thumb.jpg',
 			width: 1280,
 			height: 720,
+			format: 'jpeg',
 			platform: 'vimeo',
 			cached: false,
+			variants: [{ url: 'https://i.vimeocdn.com/video/thumb.jpg', width: 1280, height: 720, format: 'jpeg' }],
 		});
 	});
 
+	it('derives sized variants from the Vimeo CDN URL', async () => {
+		mockFetch.mockResolvedValueOnce({
+			ok: true,
+			json: async () => ({
+				thumbnail_url: 'https://i.vimeocdn.com/video/452001751-8216e8d5-d_640x360',
+				thumbnail_width: 640,
+				thumbnail_height: 360,
+			}),
+		});
+
+		const result = await fetchVimeoThumbnail('https://vimeo.com/123456');
+
+		expect(result?.url).toBe('https://i.vimeocdn.com/video/452001751-8216e8d5-d_640x360');
+		expect(result?.variants.map((v) => [v.url, v.width, v.height])).toEqual([
+			['https://i.vimeocdn.com/video/452001751-8216e8d5-d_295x166', 295, 166],
+			['https://i.vimeocdn.com/video/452001751-8216e8d5-d_640x360', 640, 360],
+			['https://i.vimeocdn.com/video/452001751-8216e8d5-d_960x540', 960, 540],
+			['https://i.vimeocdn.com/video/452001751-8216e8d5-d_1280x720', 1280, 720],
+			['https://i.vimeocdn.com/video/452001751-8216e8d5-d_1920x1080', 1920, 1080],
+		]);
+	});
+
 	it('uses default width 640 when thumbnail_width is missing', async () => {
 		mockFetch.mockResolvedValueOnce({
 			ok: true,
@@ -391,3 +809,205 @@ describe('fetchVimeoThumbnail', () => {
 		expect(result?.cached).toBe(false);
 	});
 });
+
+describe('fetchDailymotionThumbnail', () => {
+	let mockFetch: ReturnType<typeof vi.fn>;
+
+	beforeEach(() => {
+		mockFetch = vi.fn();
+		vi.stubGlobal('fetch', mockFetch);
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it('calls the oEmbed API with the canonical video URL', async () => {
+		mockFetch.mockResolvedValueOnce({
+			ok: true,
+			json: async () => ({ thumbnail_url: 'https://s1.dmcdn.net/v/thumb/x1080' }),
+		});
+
+		await fetchDailymotionThumbnail('https://dai.ly/x7tgad0');
+
+		expect(mockFetch).toHaveBeenCalledWith(
+			`https://www.dailymotion.com/services/oembed?format=json&url=${encodeURIComponent('https://www.dailymotion.com/video/x7tgad0')}`,
+			{ headers: { Accept: 'application/json' }, redirect: 'manual' },
+		);
+	});
+
+	it('returns the thumbnail with its reported dimensions', async () => {
+		mockFetch.mockResolvedValueOnce({
+			ok: true,
+			json: async () => ({
+				thumbnail_url: 'https://s1.dmcdn.net/v/thumb/x1080',
+				thumbnail_width: 1920,
+				thumbnail_height: 1080,
+			}),
+		});
+
+		const result = await fetchDailymotionThumbnail('https://www.dailymotion.com/video/x7tgad0');
+
+		expect(result).toEqual({
+			url: 'https://s1.dmcdn.net/v/thumb/x1080',
+			width: 1920,
+			height: 1080,
+			format: 'unknown',
+			platform: 'dailymotion',
+			cached: false,
+			variants: [{ url: 'https://s1.dmcdn.net/v/thumb/x1080', width: 1920, height: 1080, format: 'unknown' }],
+		});
+	});
+
+	it('returns null when the API returns non-ok response', async () => {
+		mockFetch.mockResolvedValueOnce({ ok: false });
+
+		const result = await fetchDailymotionThumbnail('https://www.dailymotion.com/video/x7tgad0');
+		expect(result).toBeNull();
+	});
+
+	it('returns null without fetching for URLs with no video id', async () => {
+		const result = await fetchDailymotionThumbnail('https://www.dailymotion.com/someuser');
+		expect(result).toBeNull();
+		expect(mockFetch).not.toHaveBeenCalled();
+	});
+});
+
+describe('fetchTwitchThumbnail', () => {
+	let mockFetch: ReturnType<typeof vi.fn>;
+
+	beforeEach(() => {
+		mockFetch = vi.fn();
+		vi.stubGlobal('fetch', mockFetch);
+		configureTwitch({ clientId: 'client', accessToken: 'token' });
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+		resetTwitchConfig();
+	});
+
+	it('resolves a VOD preview with templated dimensions', async () => {
+		mockFetch.mockResolvedValueOnce({
+			ok: true,
+			json: async () => ({
+				data: [{ thumbnail_url: 'https://static-cdn.jtvnw.net/cf_vods/abc/thumb/thumb0-%{width}x%{height}.jpg' }],
+			}),
+		});
+
+		const result = await fetchTwitchThumbnail('https://www.twitch.tv/videos/1234567890');
+
+		expect(mockFetch).toHaveBeenCalledWith('https://api.twitch.tv/helix/videos?id=1234567890', {
+			headers: { Accept: 'application/json', 'Client-Id': 'client', Authorization: 'Bearer token' },
+			redirect: 'manual',
+		});
+		expect(result).toEqual({
+			url: 'https://static-cdn.jtvnw.net/cf_vods/abc/thumb/thumb0-1280x720.jpg',
+			width: 1280,
+			height: 720,
+			format: 'jpeg',
+			platform: 'twitch',
+			cached: false,
+			variants: [
+				{ url: 'https://static-cdn.jtvnw.net/cf_vods/abc/thumb/thumb0-320x180.jpg', width: 320, height: 180, format: 'jpeg' },
+				{ url: 'https://static-cdn.jtvnw.net/cf_vods/abc/thumb/thumb0-640x360.jpg', width: 640, height: 360, format: 'jpeg' },
+				{ url: 'https://static-cdn.jtvnw.net/cf_vods/abc/thumb/thumb0-1280x720.jpg', width: 1280, height: 720, format: 'jpeg' },
+				{ url: 'https://static-cdn.jtvnw.net/cf_vods/abc/thumb/thumb0-1920x1080.jpg', width: 1920, height: 1080, format: 'jpeg' },
+			],
+		});
+	});
+
+	it('resolves a clip preview with the size encoded in its name', async () => {
+		mockFetch.mockResolvedValueOnce({
+			ok: true,
+			json: async () => ({
+				data: [{ thumbnail_url: 'https://clips-media-assets2.twitch.tv/abc-preview-480x272.jpg' }],
+			}),
+		});
+
+		const result = await fetchTwitchThumbnail('https://www.twitch.tv/somechannel/clip/FunnySlug');
+
+		expect(mockFetch.mock.calls[0]?.[0]).toBe('https://api.twitch.tv/helix/clips?id=FunnySlug');
+		expect(result?.width).toBe(480);
+		expect(result?.height).toBe(272);
+	});
+
+	it('uses the configured template size', async () => {
+		configureTwitch({ width: 640, height: 360 });
+		mockFetch.mockResolvedValueOnce({
+			ok: true,
+			json: async () => ({ data: [{ thumbnail_url: 'https://static-cdn.jtvnw.net/thumb-%{width}x%{height}.jpg' }] }),
+		});
+
+		const result = await fetchTwitchThumbnail('https://www.twitch.tv/videos/1');
+
+		expect(result?.url).toBe('https://static-cdn.jtvnw.net/thumb-640x360.jpg');
+	});
+
+	it('returns null for VODs still processing', async () => {
+		mockFetch.mockResolvedValueOnce({
+			ok: true,
+			json: async () => ({ data: [{ thumbnail_url: '' }] }),
+		});
+
+		expect(await fetchTwitchThumbnail('https://www.twitch.tv/videos/1')).toBeNull();
+	});
+
+	it('returns null for unknown videos', async () => {
+		mockFetch.mockResolvedValueOnce({ ok: true, json: async () => ({ data: [] }) });
+
+		expect(await fetchTwitchThumbnail('https://www.twitch.tv/videos/1')).toBeNull();
+	});
+
+	it('returns null without credentials', async () => {
+		resetTwitchConfig();
+
+		expect(await fetchTwitchThumbnail('https://www.twitch.tv/videos/1')).toBeNull();
+		expect(mockFetch).not.toHaveBeenCalled();
+	});
+});
+
+describe('custom HTTP client', () => {
+	const globalFetch = vi.fn();
+
+	beforeEach(() => {
+		vi.stubGlobal('fetch', globalFetch);
+	});
+
+	afterEach(() => {
+		resetHttpClient();
+		vi.restoreAllMocks();
+	});
+
+	it('sends provider requests through the configured fetch with default headers', async () => {
+		const customFetch = vi.fn().mockResolvedValue({
+			ok: true,
+			json: async () => ({ thumbnail_url: 'https://i.vimeocdn.com/video/1_640.jpg' }),
+		});
+		configureHttpClient({ fetch: customFetch, headers: { 'User-Agent': 'thumbs/1.0' } });
+
+		const result = await fetchVimeoThumbnail('https://vimeo.com/123456');
+
+		expect(result?.url).toBe('https://i.vimeocdn.com/video/1_640.jpg');
+		expect(customFetch).toHaveBeenCalledWith(
+			'https://vimeo.com/api/oembed.json?url=https%3A%2F%2Fvimeo.com%2F123456',
+			expect.objectContaining({ headers: { 'User-Agent': 'thumbs/1.0', accept: 'application/json' } }),
+		);
+		expect(globalFetch).not.toHaveBeenCalled();
+	});
+
+	it('runs the request hook for every YouTube probe', async () => {
+		const seen: string[] = [];
+		configureHttpClient({
+			fetch: async () => ({ ok: true }) as Response,
+			onRequest: (url) => {
+				seen.push(url);
+			},
+		});
+
+		await fetchYouTubeThumbnail('https://www.youtube.com/watch?v=abc123xxxxx');
+
+		expect(seen).toContain('https://img.youtube.com/vi/abc123xxxxx/maxresdefault.jpg');
+		expect(seen).toContain('https://i.ytimg.com/vi_webp/abc123xxxxx/maxresdefault.webp');
+	});
+});
@@ -0,0 +1,417 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+const execFile = vi.hoisted(() => vi.fn());
+
+vi.mock('node:child_process', () => ({ execFile }));
+
+import { createFrameProvider, extractVideoFrame, resolveVideoFrame } from '../src/frames.js';
+import { registerThumbnailProvider, resetThumbnailProviders, matchProvider } from '../src/providers.js';
+import { getVideoThumbnail, clearThumbnailCache } from '../src/cache.js';
+import { configureRequestGuard, resetRequestGuard } from '../src/guard.js';
+import { configureHttpClient, resetHttpClient } from '../src/client.js';
+
+type ExecCallback = (error: Error | null, stdout: string) => void;
+
+let inputs: Array<Promise<string>> = [];
+let mockFetch: ReturnType<typeof vi.fn>;
+
+function stubDownload() {
+	inputs = [];
+	mockFetch = vi.fn(async () => new Response('video bytes'));
+	vi.stubGlobal('fetch', mockFetch);
+}
+
+function mockBinaries(size: { width: number; height: number } | null = { width: 1920, height: 1080 }) {
+	execFile.mockImplementation((file: string, args: string[], _options: unknown, callback: ExecCallback) => {
+		if (file.endsWith('ffmpeg')) {
+			inputs.push(readFile(args[args.indexOf('-i') + 1] as string, 'utf8'));
+			writeFile(args.at(-1) as string, 'jpeg').then(() => callback(null, ''), callback);
+		} else {
+			callback(null, JSON.stringify({ streams: size ? [size] : [] }));
+		}
+	});
+}
+
+describe('extractVideoFrame', () => {
+	let outputDir: string;
+
+	beforeEach(async () => {
+		outputDir = await mkdtemp(join(tmpdir(), 'frames-'));
+		configureRequestGuard({ lookup: async () => [{ address: '93.184.216.34', family: 4 }] });
+		resetThumbnailProviders();
+		await clearThumbnailCache();
+		stubDownload();
+	});
+
+	afterEach(async () => {
+		execFile.mockReset();
+		vi.restoreAllMocks();
+		resetRequestGuard();
+		resetHttpClient();
+		resetThumbnailProviders();
+		await rm(outputDir, { recursive: true, force: true });
+	});
+
+	function refFor(url: string) {
+		registerThumbnailProvider(createFrameProvider({ ffmpegPath: '/usr/bin/ffmpeg', outputDir }));
+		const match = matchProvider(url);
+		if (!match) throw new Error(`no match for ${url}`);
+		return match.ref;
+	}
+
+	it('extracts a frame and reports its real dimensions', async () => {
+		mockBinaries({ width: 1080, height: 1920 });
+
+		const result = await extractVideoFrame(refFor('https://files.example.org/clip.mp4'), {
+			ffmpegPath: '/usr/bin/ffmpeg',
+			outputDir,
+		});
+
+		expect(result).toMatchObject({ width: 1080, height: 1920, platform: 'file', cached: false });
+		expect(result?.url).toMatch(/^file:\/\/.*\.jpg$/);
+		expect(await readdir(outputDir)).toHaveLength(1);
+	});
+
+	it('downloads the video and hands ffmpeg a local file at the default offset', async () => {
+		mockBinaries();
+
+		await extractVideoFrame(refFor('https://files.example.org/clip.mp4'), { ffmpegPath: '/usr/bin/ffmpeg', outputDir });
+
+		const [file, args] = execFile.mock.calls[0] as [string, string[]];
+		expect(file).toBe('/usr/bin/ffmpeg');
+		expect(mockFetch).toHaveBeenCalledWith('https://files.example.org/clip.mp4', expect.anything());
+		expect(args[args.indexOf('-protocol_whitelist') + 1]).toBe('file');
+		expect(args[args.indexOf('-ss') + 1]).toBe('1');
+		expect(args[args.indexOf('-i') + 1]).toMatch(new RegExp(`^${tmpdir()}/video-frame-[^/]+/input\\.mp4$`));
+		expect(await inputs[0]).toBe('video bytes');
+		expect(execFile.mock.calls[1]?.[0]).toBe('/usr/bin/ffprobe');
+	});
+
+	it('sends default client headers with the download', async () => {
+		mockBinaries();
+		configureHttpClient({ headers: { 'User-Agent': 'thumbs/1.0' } });
+
+		await extractVideoFrame(refFor('https://files.example.org/clip.mp4'), { ffmpegPath: '/usr/bin/ffmpeg', outputDir });
+
+		expect(mockFetch).toHaveBeenCalledWith(
+			'https://files.example.org/clip.mp4',
+			expect.objectContaining({ headers: { 'User-Agent': 'thumbs/1.0' } }),
+		);
+	});
+
+	it('seeks to the #t= fragment', async () => {
+		mockBinaries();
+
+		await extractVideoFrame(refFor('https://files.example.org/clip.webm#t=42'), {
+			ffmpegPath: '/usr/bin/ffmpeg',
+			outputDir,
+			offsetSeconds: 5,
+		});
+
+		const args = execFile.mock.calls[0]?.[1] as string[];
+		expect(args[args.indexOf('-ss') + 1]).toBe('42');
+		expect(mockFetch).toHaveBeenCalledWith('https://files.example.org/clip.webm', expect.anything());
+		expect(args[args.indexOf('-i') + 1]).not.toContain('#t=');
+	});
+
+	it('uses the configured offset, ffprobe path and public URL', async () => {
+		mockBinaries();
+
+		const result = await extractVideoFrame(refFor('https://files.example.org/clip.mp4'), {
+			ffmpegPath: '/opt/ff/ffmpeg',
+			ffprobePath: '/opt/probe/ffprobe',
+			outputDir,
+			offsetSeconds: 10,
+			publicBaseUrl: 'https://static.example.org/frames/',
+		});
+
+		const args = execFile.mock.calls[0]?.[1] as string[];
+		expect(args[args.indexOf('-ss') + 1]).toBe('10');
+		expect(execFile.mock.calls[1]?.[0]).toBe('/opt/probe/ffprobe');
+		expect(result?.url).toMatch(/^https:\/\/static\.example\.org\/frames\/[0-9a-f]{32}\.jpg$/);
+	});
+
+	it('returns null and leaves no files when ffmpeg fails', async () => {
+		execFile.mockImplementation((_file: string, _args: string[], _options: unknown, callback: ExecCallback) => {
+			callback(new Error('ffmpeg exited with code 1'), '');
+		});
+
+		const result = await extractVideoFrame(refFor('https://files.example.org/clip.mp4'), {
+			ffmpegPath: '/usr/bin/ffmpeg',
+			outputDir,
+		});
+
+		expect(result).toBeNull();
+		expect(await readdir(outputDir)).toEqual([]);
+	});
+
+	it('returns null when ffprobe finds no video stream', async () => {
+		mockBinaries(null);
+
+		const result = await extractVideoFrame(refFor('https://files.example.org/clip.mp4'), {
+			ffmpegPath: '/usr/bin/ffmpeg',
+			outputDir,
+		});
+
+		expect(result).toBeNull();
+		expect(await readdir(outputDir)).toEqual([]);
+	});
+
+	it('reports why the download failed', async () => {
+		mockBinaries();
+		mockFetch.mockResolvedValueOnce(new Response(null, { status: 404 }));
+
+		const outcome = await resolveVideoFrame(refFor('https://files.example.org/clip.mp4'), {
+			ffmpegPath: '/usr/bin/ffmpeg',
+			outputDir,
+		});
+
+		expect(outcome).toEqual({ ok: false, reason: 'not_found', status: 404 });
+		expect(execFile).not.toHaveBeenCalled();
+	});
+
+	it('reports undecodable input as invalid_response', async () => {
+		mockBinaries(null);
+
+		const outcome = await resolveVideoFrame(refFor('https://files.example.org/clip.mp4'), {
+			ffmpegPath: '/usr/bin/ffmpeg',
+			outputDir,
+		});
+
+		expect(outcome).toEqual({ ok: false, reason: 'invalid_response' });
+	});
+
+	it('does not follow redirects to blocked addresses', async () => {
+		mockBinaries();
+		mockFetch.mockResolvedValueOnce(
+			new Response(null, { status: 302, headers: { location: 'http://169.254.169.254/latest/meta-data' } }),
+		);
+
+		const result = await extractVideoFrame(refFor('https://files.example.org/clip.mp4'), {
+			ffmpegPath: '/usr/bin/ffmpeg',
+			outputDir,
+		});
+
+		expect(result).toBeNull();
+		expect(mockFetch).toHaveBeenCalledTimes(1);
+		expect(execFile).not.toHaveBeenCalled();
+	});
+
+	it('fails instead of truncating downloads larger than maxBytes', async () => {
+		mockBinaries();
+
+		const outcome = await resolveVideoFrame(refFor('https://files.example.org/clip.mp4'), {
+			ffmpegPath: '/usr/bin/ffmpeg',
+			outputDir,
+			maxBytes: 5,
+		});
+
+		expect(outcome).toMatchObject({ ok: false, reason: 'unsupported' });
+		expect(execFile).not.toHaveBeenCalled();
+	});
+
+	it('keeps partial downloads out of the output directory', async () => {
+		let listed: Promise<string[]> | undefined;
+		execFile.mockImplementation((_file: string, _args: string[], _options: unknown, callback: ExecCallback) => {
+			listed = readdir(outputDir);
+			callback(new Error('ffmpeg exited with code 1'), '');
+		});
+
+		await extractVideoFrame(refFor('https://files.example.org/clip.mp4'), { ffmpegPath: '/usr/bin/ffmpeg', outputDir });
+
+		expect(await listed).toEqual([]);
+	});
+
+	it('keeps concurrent extractions of the same frame apart', async () => {
+		mockBinaries();
+		const ref = refFor('https://files.example.org/clip.mp4');
+
+		const results = await Promise.all([
+			extractVideoFrame(ref, { ffmpegPath: '/usr/bin/ffmpeg', outputDir }),
+			extractVideoFrame(ref, { ffmpegPath: '/usr/bin/ffmpeg', outputDir }),
+		]);
+
+		expect(results.every((result) => result?.width === 1920)).toBe(true);
+		expect(await readdir(outputDir)).toHaveLength(1);
+	});
+
+	it('does not run ffmpeg for blocked addresses', async () => {
+		mockBinaries();
+
+		const result = await extractVideoFrame(refFor('http://127.0.0.1/clip.mp4'), {
+			ffmpegPath: '/usr/bin/ffmpeg',
+			outputDir,
+		});
+
+		expect(result).toBeNull();
+		expect(mockFetch).not.toHaveBeenCalled();
+		expect(execFile).not.toHaveBeenCalled();
+	});
+});
+
+describe('extractVideoFrame with HLS playlists', () => {
+	let outputDir: string;
+
+	const MEDIA_PLAYLIST = `#EXTM3U
+#EXT-X-TARGETDURATION:4
+#EXT-X-MEDIA-SEQUENCE:7
+#EXTINF:4.0,
+seg0.ts
+#EXTINF:4.0,
+seg1.ts
+#EXT-X-ENDLIST`;
+
+	function serve(files: Record<string, string>) {
+		mockFetch.mockImplementation(async (url: string) =>
+			url in files ? new Response(files[url]) : new Response(null, { status: 404 }),
+		);
+	}
+
+	beforeEach(async () => {
+		outputDir = await mkdtemp(join(tmpdir(), 'frames-'));
+		configureRequestGuard({ lookup: async () => [{ address: '93.184.216.34', family: 4 }] });
+		resetThumbnailProviders();
+		stubDownload();
+	});
+
+	afterEach(async () => {
+		execFile.mockReset();
+		vi.restoreAllMocks();
+		resetRequestGuard();
+		resetThumbnailProviders();
+		await rm(outputDir, { recursive: true, force: true });
+	});
+
+	function ref(url: string) {
+		registerThumbnailProvider(createFrameProvider({ ffmpegPath: '/usr/bin/ffmpeg', outputDir }));
+		const match = matchProvider(`${url}#t=6`);
+		if (!match) throw new Error(`no match for ${url}`);
+		return match.ref;
+	}
+
+	it('downloads the segment at the offset and hands ffmpeg a local playlist', async () => {
+		mockBinaries();
+		serve({
+			'https://files.example.org/live/stream.m3u8': MEDIA_PLAYLIST,
+			'https://files.example.org/live/seg1.ts': 'segment bytes',
+		});
+
+		const result = await extractVideoFrame(ref('https://files.example.org/live/stream.m3u8'), {
+			ffmpegPath: '/usr/bin/ffmpeg',
+			outputDir,
+		});
+
+		const args = execFile.mock.calls[0]?.[1] as string[];
+		expect(result).toMatchObject({ width: 1920, height: 1080 });
+		expect(mockFetch.mock.calls.map(([url]) => url)).toEqual([
+			'https://files.example.org/live/stream.m3u8',
+			'https://files.example.org/live/seg1.ts',
+		]);
+		expect(args[args.indexOf('-protocol_whitelist') + 1]).toBe('file,crypto');
+		expect(args[args.indexOf('-ss') + 1]).toBe('2');
+		expect(args[args.indexOf('-i') + 1]).toMatch(/input\.m3u8$/);
+		expect(await inputs[0]).toContain('#EXT-X-MEDIA-SEQUENCE:8\n#EXTINF:4,\nsegment.ts\n');
+	});
+
+	it('follows the highest-bandwidth variant and fetches its key and init section', async () => {
+		mockBinaries();
+		serve({
+			'https://files.example.org/live/master.m3u8': `#EXTM3U
+#EXT-X-STREAM-INF:BANDWIDTH=800000,RESOLUTION=640x360
+low/index.m3u8
+#EXT-X-STREAM-INF:BANDWIDTH=5000000,RESOLUTION=1920x1080
+high/index.m3u8`,
+			'https://files.example.org/live/high/index.m3u8': `#EXTM3U
+#EXT-X-KEY:METHOD=AES-128,URI="https://keys.example.org/k1",IV=0x1
+#EXT-X-MAP:URI="init.mp4"
+#EXTINF:10,
+part0.m4s`,
+			'https://files.example.org/live/high/part0.m4s': 'segment bytes',
+			'https://keys.example.org/k1': 'key bytes',
+			'https://files.example.org/live/high/init.mp4': 'init bytes',
+		});
+
+		const result = await extractVideoFrame(ref('https://files.example.org/live/master.m3u8'), {
+			ffmpegPath: '/usr/bin/ffmpeg',
+			outputDir,
+		});
+
+		expect(result).not.toBeNull();
+		expect(mockFetch.mock.calls.map(([url]) => url)).toEqual([
+			'https://files.example.org/live/master.m3u8',
+			'https://files.example.org/live/high/index.m3u8',
+			'https://files.example.org/live/high/part0.m4s',
+			'https://keys.example.org/k1',
+			'https://files.example.org/live/high/init.mp4',
+		]);
+		const playlist = await inputs[0];
+		expect(playlist).toContain('#EXT-X-KEY:METHOD=AES-128,URI="segment.key",IV=0x1');
+		expect(playlist).toContain('#EXT-X-MAP:URI="init.mp4"');
+		expect(playlist).toContain('segment.m4s');
+	});
+
+	it('does not fetch segments from blocked addresses', async () => {
+		mockBinaries();
+		serve({
+			'https://files.example.org/live/stream.m3u8': '#EXTM3U\n#EXTINF:4,\nhttp://169.254.169.254/latest/meta-data\n',
+		});
+
+		const outcome = await resolveVideoFrame(ref('https://files.example.org/live/stream.m3u8'), {
+			ffmpegPath: '/usr/bin/ffmpeg',
+			outputDir,
+		});
+
+		expect(outcome).toMatchObject({ ok: false, reason: 'unsupported' });
+		expect(mockFetch).toHaveBeenCalledTimes(1);
+		expect(execFile).not.toHaveBeenCalled();
+	});
+});
+
+describe('createFrameProvider', () => {
+	let outputDir: string;
+
+	beforeEach(async () => {
+		outputDir = await mkdtemp(join(tmpdir(), 'frames-'));
+		configureRequestGuard({ lookup: async () => [{ address: '93.184.216.34', family: 4 }] });
+		resetThumbnailProviders();
+		await clearThumbnailCache();
+		stubDownload();
+	});
+
+	afterEach(async () => {
+		execFile.mockReset();
+		vi.restoreAllMocks();
+		resetRequestGuard();
+		resetThumbnailProviders();
+		await rm(outputDir, { recursive: true, force: true });
+	});
+
+	it('matches direct video file URLs only', () => {
+		registerThumbnailProvider(createFrameProvider({ ffmpegPath: 'ffmpeg', outputDir }));
+
+		expect(matchProvider('https://files.example.org/a/clip.MP4')?.provider.platform).toBe('file');
+		expect(matchProvider('https://files.example.org/a/clip.webm?token=x')?.provider.platform).toBe('file');
+		expect(matchProvider('https://files.example.org/a/stream.m3u8?token=x')?.provider.platform).toBe('file');
+		expect(matchProvider('https://files.example.org/a/page.html')).toBeNull();
+	});
+
+	it('honours custom extensions', () => {
+		registerThumbnailProvider(createFrameProvider({ ffmpegPath: 'ffmpeg', outputDir, extensions: ['.mov'] }));
+
+		expect(matchProvider('https://files.example.org/clip.mov')).not.toBeNull();
+		expect(matchProvider('https://files.example.org/clip.mp4')).toBeNull();
+	});
+
+	it('resolves through getVideoThumbnail', async () => {
+		mockBinaries();
+		registerThumbnailProvider(createFrameProvider({ ffmpegPath: 'ffmpeg', outputDir }));
+
+		const result = await getVideoThumbnail('https://files.example.org/clip.mp4');
+
+		expect(result).toMatchObject({ platform: 'file', width: 1920, height: 1080 });
+		expect(execFile.mock.calls[1]?.[0]).toBe('ffprobe');
+	});
+});
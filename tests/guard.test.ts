@@ -0,0 +1,263 @@
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { describe, it, expect, vi, beforeEach, afterEach, beforeAll, afterAll } from 'vitest';
+import {
+	assertRequestAllowed,
+	BlockedRequestError,
+	configureRequestGuard,
+	guardedFetch,
+	isBlockedAddress,
+	resetRequestGuard,
+} from '../src/guard.js';
+
+const PUBLIC_ADDRESS = [{ address: '93.184.216.34', family: 4 }];
+
+describe('isBlockedAddress', () => {
+	it.each([
+		'127.0.0.1',
+		'10.1.2.3',
+		'172.16.0.1',
+		'192.168.1.1',
+		'169.254.169.254',
+		'100.64.0.1',
+		'0.0.0.0',
+		'224.0.0.1',
+		'255.255.255.255',
+	])('blocks IPv4 %s', (address) => {
+		expect(isBlockedAddress(address)).toBe(true);
+	});
+
+	it.each([
+		'::1',
+		'::',
+		'fe80::1',
+		'fd00::1234',
+		'ff02::1',
+		'::ffff:127.0.0.1',
+		'::ffff:a9fe:a9fe',
+		'64:ff9b::a00:1',
+		'2002:c0a8:101::1',
+		'2001:db8::1',
+	])('blocks IPv6 %s', (address) => {
+		expect(isBlockedAddress(address)).toBe(true);
+	});
+
+	it.each(['93.184.216.34', '2606:2800:220:1:248:1893:25c8:1946', '64:ff9b::5db8:d822'])(
+		'allows public address %s',
+		(address) => {
+			expect(isBlockedAddress(address)).toBe(false);
+		},
+	);
+
+	it('blocks values that are not IP addresses', () => {
+		expect(isBlockedAddress('localhost')).toBe(true);
+	});
+});
+
+describe('assertRequestAllowed', () => {
+	let lookup: ReturnType<typeof vi.fn>;
+
+	beforeEach(() => {
+		lookup = vi.fn().mockResolvedValue(PUBLIC_ADDRESS);
+		configureRequestGuard({ lookup });
+	});
+
+	afterEach(() => {
+		resetRequestGuard();
+	});
+
+	it('allows public hosts', async () => {
+		await expect(assertRequestAllowed('https://tube.example.org/api/v1/videos/x')).resolves.toBeInstanceOf(URL);
+		expect(lookup).toHaveBeenCalledWith('tube.example.org');
+	});
+
+	it('rejects non-http schemes', async () => {
+		await expect(assertRequestAllowed('file:///etc/passwd')).rejects.toBeInstanceOf(BlockedRequestError);
+		await expect(assertRequestAllowed('gopher://example.com/')).rejects.toBeInstanceOf(BlockedRequestError);
+	});
+
+	it('rejects non-default ports', async () => {
+		await expect(assertRequestAllowed('https://tube.example.org:8080/')).rejects.toThrow('Port 8080');
+	});
+
+	it('allows allowlisted ports', async () => {
+		configureRequestGuard({ allowedPorts: [8080] });
+		await expect(assertRequestAllowed('https://tube.example.org:8080/')).resolves.toBeInstanceOf(URL);
+	});
+
+	it('rejects IP literals in blocked ranges without a lookup', async () => {
+		await expect(assertRequestAllowed('http://169.254.169.254/latest/meta-data')).rejects.toBeInstanceOf(BlockedRequestError);
+		await expect(assertRequestAllowed('http://[::1]/')).rejects.toBeInstanceOf(BlockedRequestError);
+		await expect(assertRequestAllowed('http://2130706433/')).rejects.toBeInstanceOf(BlockedRequestError);
+		expect(lookup).not.toHaveBeenCalled();
+	});
+
+	it('rejects hostnames resolving to a blocked address', async () => {
+		lookup.mockResolvedValueOnce([...PUBLIC_ADDRESS, { address: '127.0.0.1', family: 4 }]);
+		await expect(assertRequestAllowed('https://internal.example.org/')).rejects.toThrow('127.0.0.1');
+	});
+
+	it('rejects hostnames that do not resolve', async () => {
+		lookup.mockResolvedValueOnce([]);
+		await expect(assertRequestAllowed('https://nowhere.example.org/')).rejects.toBeInstanceOf(BlockedRequestError);
+	});
+
+	it('allows allowlisted hosts without resolving them', async () => {
+		configureRequestGuard({ allowedHosts: ['tube.internal:9000'] });
+		await expect(assertRequestAllowed('http://tube.internal:9000/w/abc')).resolves.toBeInstanceOf(URL);
+		expect(lookup).not.toHaveBeenCalled();
+	});
+
+	it('skips resolution for built-in platform hosts', async () => {
+		await expect(assertRequestAllowed('https://img.youtube.com/vi/x/hqdefault.jpg')).resolves.toBeInstanceOf(URL);
+		expect(lookup).not.toHaveBeenCalled();
+	});
+});
+
+describe('guardedFetch', () => {
+	let mockFetch: ReturnType<typeof vi.fn>;
+
+	beforeEach(() => {
+		mockFetch = vi.fn();
+		vi.stubGlobal('fetch', mockFetch);
+		configureRequestGuard({ lookup: async () => PUBLIC_ADDRESS });
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+		resetRequestGuard();
+	});
+
+	function redirect(location: string) {
+		return { ok: false, status: 302, headers: new Headers({ location }) };
+	}
+
+	it('disables automatic redirects', async () => {
+		mockFetch.mockResolvedValueOnce({ ok: true, status: 200 });
+
+		await guardedFetch('https://tube.example.org/a', { method: 'HEAD' });
+
+		expect(mockFetch).toHaveBeenCalledWith('https://tube.example.org/a', { method: 'HEAD', redirect: 'manual' });
+	});
+
+	it('follows redirects to allowed targets', async () => {
+		mockFetch
+			.mockResolvedValueOnce(redirect('/b'))
+			.mockResolvedValueOnce({ ok: true, status: 200 });
+
+		const res = await guardedFetch('https://tube.example.org/a');
+
+		expect(res.ok).toBe(true);
+		expect(mockFetch).toHaveBeenLastCalledWith('https://tube.example.org/b', { redirect: 'manual' });
+	});
+
+	it('drops credentials when a redirect leaves the origin', async () => {
+		mockFetch
+			.mockResolvedValueOnce(redirect('/b'))
+			.mockResolvedValueOnce(redirect('https://cdn.example.net/c'))
+			.mockResolvedValueOnce({ ok: true, status: 200 });
+		const headers = { Authorization: 'Bearer secret', 'Client-Id': 'abc', Cookie: 'session=1' };
+
+		await guardedFetch('https://tube.example.org/a', { headers });
+
+		expect(mockFetch).toHaveBeenNthCalledWith(2, 'https://tube.example.org/b', { headers, redirect: 'manual' });
+		expect(mockFetch).toHaveBeenLastCalledWith('https://cdn.example.net/c', {
+			headers: { 'client-id': 'abc' },
+			redirect: 'manual',
+		});
+	});
+
+	it('cancels redirect bodies before the next hop', async () => {
+		const cancel = vi.fn();
+		mockFetch
+			.mockResolvedValueOnce({ ...redirect('/b'), body: new ReadableStream({ cancel }) })
+			.mockResolvedValueOnce({ ok: true, status: 200 });
+
+		await guardedFetch('https://tube.example.org/a');
+
+		expect(cancel).toHaveBeenCalled();
+	});
+
+	it('refuses redirects into blocked ranges', async () => {
+		mockFetch.mockResolvedValueOnce(redirect('http://127.0.0.1/admin'));
+
+		await expect(guardedFetch('https://tube.example.org/a')).rejects.toBeInstanceOf(BlockedRequestError);
+		expect(mockFetch).toHaveBeenCalledTimes(1);
+	});
+
+	it('stops after too many redirects', async () => {
+		configureRequestGuard({ maxRedirects: 2 });
+		mockFetch.mockResolvedValue(redirect('/loop'));
+
+		await expect(guardedFetch('https://tube.example.org/a')).rejects.toThrow('Too many redirects');
+		expect(mockFetch).toHaveBeenCalledTimes(3);
+	});
+
+	it('does not call fetch for blocked URLs', async () => {
+		await expect(guardedFetch('http://127.0.0.1/')).rejects.toBeInstanceOf(BlockedRequestError);
+		expect(mockFetch).not.toHaveBeenCalled();
+	});
+});
+
+describe('guardedFetch without a configured fetch', () => {
+	const LOOPBACK = [{ address: '127.0.0.1', family: 4 }];
+	let server: Server;
+	let port: number;
+	let requests: string[];
+
+	beforeAll(async () => {
+		server = createServer((req, res) => {
+			requests.push(req.url ?? '');
+			if (req.url === '/redirect') {
+				res.writeHead(302, { location: 'http://169.254.169.254/latest/meta-data/' }).end();
+			} else {
+				res.writeHead(200, { 'content-type': 'text/plain', 'x-method': req.method ?? '' }).end('pinned');
+			}
+		});
+		await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+		port = (server.address() as AddressInfo).port;
+	});
+
+	afterAll(async () => {
+		await new Promise((resolve) => server.close(resolve));
+	});
+
+	beforeEach(() => {
+		vi.unstubAllGlobals();
+		requests = [];
+	});
+
+	afterEach(() => {
+		resetRequestGuard();
+	});
+
+	it('connects to the address the guard checked', async () => {
+		const lookup = vi.fn().mockResolvedValue(LOOPBACK);
+		configureRequestGuard({ allowedHosts: [`pinned.test:${port}`], lookup });
+
+		const res = await guardedFetch(`http://pinned.test:${port}/a`, { method: 'POST', body: 'x' });
+
+		expect(res.status).toBe(200);
+		expect(res.headers.get('x-method')).toBe('POST');
+		expect(await res.text()).toBe('pinned');
+		expect(requests).toEqual(['/a']);
+		expect(lookup).toHaveBeenCalledWith('pinned.test');
+	});
+
+	it('refuses to connect when the host rebinds to a blocked address after the check', async () => {
+		configureRequestGuard({
+			allowedPorts: [port],
+			lookup: vi.fn().mockResolvedValueOnce(PUBLIC_ADDRESS).mockResolvedValue(LOOPBACK),
+		});
+
+		await expect(guardedFetch(`http://rebind.test:${port}/a`)).rejects.toBeInstanceOf(BlockedRequestError);
+		expect(requests).toEqual([]);
+	});
+
+	it('checks redirects returned by the pinned transport', async () => {
+		configureRequestGuard({ allowedHosts: [`pinned.test:${port}`], lookup: async () => LOOPBACK });
+
+		await expect(guardedFetch(`http://pinned.test:${port}/redirect`)).rejects.toBeInstanceOf(BlockedRequestError);
+		expect(requests).toEqual(['/redirect']);
+	});
+});
@@ -0,0 +1,27 @@
+import type { CacheEntry } from '../src/types.js';
+
+export function hangingFetch(_url: string, init: RequestInit): Promise<Response> {
+	return new Promise((_, reject) => {
+		if (init.signal?.aborted) reject(init.signal.reason);
+		init.signal?.addEventListener('abort', () => reject(init.signal?.reason));
+	});
+}
+
+export function htmlResponse(html: string): Response {
+	return new Response(html, { headers: { 'content-type': 'text/html; charset=utf-8' } });
+}
+
+export const cacheEntry = (timestamp: number): CacheEntry => ({
+	result: {
+		url: 'https://img.youtube.com/vi/abc123xxxxx/maxresdefault.jpg',
+		width: 1280,
+		height: 720,
+		format: 'jpeg',
+		platform: 'youtube',
+		cached: false,
+		variants: [],
+	},
+	timestamp,
+});
+
+export const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { findSegment, selectVariant, writeMediaPlaylist } from '../src/hls.js';
+
+const BASE = 'https://files.example.org/live/stream.m3u8';
+
+const MEDIA = `#EXTM3U
+#EXT-X-MEDIA-SEQUENCE:3
+#EXT-X-KEY:METHOD=AES-128,URI="/keys/a",IV=0x0A
+#EXTINF:6.0,
+a.ts
+#EXT-X-KEY:METHOD=NONE
+#EXTINF:6.0,
+b.ts`;
+
+describe('selectVariant', () => {
+	it('picks the variant with the highest bandwidth', () => {
+		const master = `#EXTM3U
+#EXT-X-STREAM-INF:BANDWIDTH=2000000,CODECS="avc1.4d401f,mp4a.40.2"
+mid.m3u8
+#EXT-X-STREAM-INF:BANDWIDTH=6000000
+https://cdn.example.org/high.m3u8
+#EXT-X-STREAM-INF:BANDWIDTH=500000
+low.m3u8`;
+
+		expect(selectVariant(master, BASE)).toBe('https://cdn.example.org/high.m3u8');
+	});
+
+	it('returns null for media playlists', () => {
+		expect(selectVariant(MEDIA, BASE)).toBeNull();
+	});
+});
+
+describe('findSegment', () => {
+	it('finds the segment covering the offset with its key and sequence number', () => {
+		expect(findSegment(MEDIA, BASE, 2)).toEqual({
+			url: 'https://files.example.org/live/a.ts',
+			start: 0,
+			duration: 6,
+			sequence: 3,
+			key: { METHOD: 'AES-128', URI: 'https://files.example.org/keys/a', IV: '0x0A' },
+			map: undefined,
+		});
+		expect(findSegment(MEDIA, BASE, 7)).toMatchObject({ url: 'https://files.example.org/live/b.ts', start: 6, sequence: 4, key: undefined });
+	});
+
+	it('falls back to the last segment past the end', () => {
+		expect(findSegment(MEDIA, BASE, 60)?.url).toBe('https://files.example.org/live/b.ts');
+	});
+
+	it('rejects byte-range playlists and empty playlists', () => {
+		expect(findSegment('#EXTM3U\n#EXTINF:4,\n#EXT-X-BYTERANGE:1000@0\nall.ts', BASE, 0)).toBeNull();
+		expect(findSegment('#EXTM3U\n#EXT-X-ENDLIST', BASE, 0)).toBeNull();
+	});
+});
+
+describe('writeMediaPlaylist', () => {
+	it('points the segment, key and init section at local files', () => {
+		const segment = {
+			url: 'https://files.example.org/live/a.m4s',
+			start: 0,
+			duration: 4.5,
+			sequence: 9,
+			key: { METHOD: 'AES-128', URI: 'https://keys.example.org/k', IV: '0x01' },
+			map: 'https://files.example.org/live/init.mp4',
+		};
+
+		expect(writeMediaPlaylist(segment, { segment: 'segment.m4s', key: 'segment.key', map: 'init.mp4' })).toBe(
+			[
+				'#EXTM3U',
+				'#EXT-X-TARGETDURATION:5',
+				'#EXT-X-MEDIA-SEQUENCE:9',
+				'#EXT-X-KEY:METHOD=AES-128,URI="segment.key",IV=0x01',
+				'#EXT-X-MAP:URI="init.mp4"',
+				'#EXTINF:4.5,',
+				'segment.m4s',
+				'#EXT-X-ENDLIST',
+				'',
+			].join('\n'),
+		);
+	});
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { decodeEntities, findTags, readHtmlHead } from '../src/html.js';
+
+function streamResponse(chunks: string[], onPull?: () => void): Response {
+	const encoder = new TextEncoder();
+	let index = 0;
+	const body = new ReadableStream<Uint8Array>({
+		pull(controller) {
+			onPull?.();
+			const chunk = chunks[index++];
+			if (chunk === undefined) {
+				controller.close();
+			} else {
+				controller.enqueue(encoder.encode(chunk));
+			}
+		},
+	});
+	return new Response(body);
+}
+
+describe('readHtmlHead', () => {
+	it('returns the document up to </head>', async () => {
+		const head = await readHtmlHead(new Response('<html><head><title>x</title></head><body>ignored</body></html>'));
+		expect(head).toBe('<html><head><title>x</title>');
+	});
+
+	it('stops reading once </head> is seen', async () => {
+		let pulls = 0;
+		const res = streamResponse(['<head><meta a="1">', '</head><body>', 'more', 'and more'], () => pulls++);
+
+		const head = await readHtmlHead(res);
+
+		expect(head).toBe('<head><meta a="1">');
+		expect(pulls).toBeLessThanOrEqual(3);
+	});
+
+	it('stops at <body> when </head> is missing', async () => {
+		const head = await readHtmlHead(new Response('<meta a="1"><body><p>x</p>'));
+		expect(head).toBe('<meta a="1">');
+	});
+
+	it('enforces the byte budget', async () => {
+		const head = await readHtmlHead(streamResponse(['a'.repeat(100), 'b'.repeat(100)]), 150);
+		expect(head).toHaveLength(150);
+	});
+
+	it('returns an empty string without a body', async () => {
+		expect(await readHtmlHead(new Response(null))).toBe('');
+	});
+});
+
+describe('findTags', () => {
+	it('parses quoted, unquoted and self-closing attributes', () => {
+		const tags = findTags(`<link rel="alternate" type='application/json+oembed' href=/oembed?x=1 />`, 'link');
+		expect(tags).toEqual([{ rel: 'alternate', type: 'application/json+oembed', href: '/oembed?x=1' }]);
+	});
+
+	it('lowercases attribute names and decodes entities', () => {
+		const tags = findTags('<META Property="og:image" Content="https://x.test/a.jpg?w=1&amp;h=2">', 'meta');
+		expect(tags).toEqual([{ property: 'og:image', content: 'https://x.test/a.jpg?w=1&h=2' }]);
+	});
+
+	it('ignores other tags', () => {
+		expect(findTags('<linker href="x"><meta name="a">', 'link')).toEqual([]);
+	});
+});
+
+describe('decodeEntities', () => {
+	it('decodes common entities and leaves unknown ones', () => {
+		expect(decodeEntities('a&amp;b&quot;c&#39;d&unknown;')).toBe('a&b"c\'d&unknown;');
+	});
+
+	it('decodes any decimal or hexadecimal character reference', () => {
+		expect(decodeEntities('a&#038;b&#x2F;c&#X2f;d&#8211;e&#x1F600;')).toBe('a&b/c/d\u2013e\u{1F600}');
+	});
+
+	it('leaves references to invalid code points encoded', () => {
+		expect(decodeEntities('&#0;&#xD800;&#x110000;&#99999999999;')).toBe('&#0;&#xD800;&#x110000;&#99999999999;');
+	});
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { abortable, fetchWithOptions, withDeadline } from '../src/http.js';
+import { configureRequestGuard, resetRequestGuard } from '../src/guard.js';
+import { hangingFetch } from './helpers.js';
+
+describe('withDeadline', () => {
+	it('keeps the options without a timeout', () => {
+		expect(withDeadline({ requestTimeoutMs: 100 })).toEqual({ requestTimeoutMs: 100 });
+	});
+
+	it('tags requests with the platform', () => {
+		expect(withDeadline({}, 'vimeo')).toEqual({ platform: 'vimeo' });
+	});
+
+	it('turns timeoutMs into a signal', async () => {
+		const { signal, timeoutMs } = withDeadline({ timeoutMs: 5 });
+
+		expect(timeoutMs).toBeUndefined();
+		await new Promise((resolve) => setTimeout(resolve, 20));
+		expect(signal?.aborted).toBe(true);
+		expect((signal?.reason as Error).name).toBe('TimeoutError');
+	});
+
+	it('keeps following the caller signal', () => {
+		const controller = new AbortController();
+		const { signal } = withDeadline({ signal: controller.signal, timeoutMs: 10_000 });
+
+		controller.abort(new Error('stop'));
+		expect(signal?.aborted).toBe(true);
+		expect((signal?.reason as Error).message).toBe('stop');
+	});
+});
+
+describe('fetchWithOptions', () => {
+	let mockFetch: ReturnType<typeof vi.fn>;
+
+	beforeEach(() => {
+		mockFetch = vi.fn();
+		vi.stubGlobal('fetch', mockFetch);
+		configureRequestGuard({ lookup: async () => [{ address: '93.184.216.34', family: 4 }] });
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+		resetRequestGuard();
+	});
+
+	it('passes the request through untouched without signals', async () => {
+		mockFetch.mockResolvedValueOnce({ ok: true });
+
+		await fetchWithOptions('https://example.org/a', { headers: { Accept: 'text/html' } });
+
+		expect(mockFetch).toHaveBeenCalledWith('https://example.org/a', {
+			headers: { Accept: 'text/html' },
+			redirect: 'manual',
+		});
+	});
+
+	it('aborts a single request after requestTimeoutMs', async () => {
+		mockFetch.mockImplementation(hangingFetch);
+
+		await expect(fetchWithOptions('https://example.org/a', {}, { requestTimeoutMs: 5 })).rejects.toMatchObject({
+			name: 'TimeoutError',
+		});
+	});
+
+	it('aborts when either the caller or the request signal fires', async () => {
+		mockFetch.mockImplementation(hangingFetch);
+		const caller = new AbortController();
+		const request = new AbortController();
+
+		const first = fetchWithOptions('https://example.org/a', { signal: request.signal }, { signal: caller.signal });
+		const second = fetchWithOptions('https://example.org/b', { signal: request.signal }, { signal: new AbortController().signal });
+		caller.abort(new Error('caller'));
+
+		await expect(first).rejects.toThrow('caller');
+		request.abort(new Error('request'));
+		await expect(second).rejects.toThrow('request');
+	});
+});
+
+describe('abortable', () => {
+	it('resolves with the promise when not aborted', async () => {
+		expect(await abortable(Promise.resolve(1), new AbortController().signal)).toBe(1);
+	});
+
+	it('rejects with the abort reason without waiting for the promise', async () => {
+		const controller = new AbortController();
+		const pending = abortable(new Promise(() => {}), controller.signal);
+
+		controller.abort(new Error('gone'));
+		await expect(pending).rejects.toThrow('gone');
+	});
+
+	it('rejects immediately for an already aborted signal', async () => {
+		await expect(abortable(Promise.resolve(1), AbortSignal.abort(new Error('early')))).rejects.toThrow('early');
+	});
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { probeImage, readImageHeader, readImageInfo } from '../src/image.js';
+import { configureRequestGuard, resetRequestGuard } from '../src/guard.js';
+
+function bytes(...parts: Array<number[] | string>): Uint8Array<ArrayBuffer> {
+	return new Uint8Array(parts.flatMap((part) => (typeof part === 'string' ? Array.from(part, (c) => c.charCodeAt(0)) : part)));
+}
+
+function u16be(value: number): number[] {
+	return [value >> 8, value & 0xff];
+}
+
+function u32be(value: number): number[] {
+	return [(value >>> 24) & 0xff, (value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+}
+
+const jpeg = (width: number, height: number) =>
+	bytes(
+		[0xff, 0xd8],
+		[0xff, 0xe0, 0x00, 0x10], 'JFIF\0', [0x01, 0x01, 0x00, 0x00, 0x01, 0x00, 0x01, 0x00, 0x00],
+		[0xff, 0xdb, 0x00, 0x03, 0x00],
+		[0xff, 0xc2, 0x00, 0x11, 0x08], u16be(height), u16be(width), [0x03],
+	);
+
+const png = (width: number, height: number) =>
+	bytes([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a], u32be(13), 'IHDR', u32be(width), u32be(height), [8, 6, 0, 0, 0]);
+
+describe('readImageInfo', () => {
+	it('reads JPEG frame headers after other segments', () => {
+		expect(readImageInfo(jpeg(1280, 720))).toEqual({ width: 1280, height: 720, format: 'jpeg', mimeType: 'image/jpeg' });
+	});
+
+	it('reads PNG IHDR', () => {
+		expect(readImageInfo(png(640, 480))).toEqual({ width: 640, height: 480, format: 'png', mimeType: 'image/png' });
+	});
+
+	it('reads GIF logical screen size', () => {
+		expect(readImageInfo(bytes('GIF89a', [0x40, 0x01, 0xf0, 0x00], [0, 0, 0, 0]))).toMatchObject({ width: 320, height: 240, format: 'gif' });
+	});
+
+	it('reads lossy, lossless and extended WebP', () => {
+		const lossy = bytes('RIFF', [0, 0, 0, 0], 'WEBPVP8 ', [0, 0, 0, 0], [0, 0, 0], [0x9d, 0x01, 0x2a], [0x80, 0x02, 0x68, 0x01]);
+		const lossless = bytes('RIFF', [0, 0, 0, 0], 'WEBPVP8L', [0, 0, 0, 0], [0x2f], [0x3f, 0xc0, 0x3b, 0x00], [0, 0, 0, 0, 0]);
+		const extended = bytes('RIFF', [0, 0, 0, 0], 'WEBPVP8X', [0, 0, 0, 0], [0, 0, 0, 0], [0xff, 0x04, 0x00], [0xcf, 0x02, 0x00]);
+
+		expect(readImageInfo(lossy)).toMatchObject({ width: 640, height: 360, format: 'webp', mimeType: 'image/webp' });
+		expect(readImageInfo(lossless)).toMatchObject({ width: 64, height: 240, format: 'webp' });
+		expect(readImageInfo(extended)).toMatchObject({ width: 1280, height: 720, format: 'webp' });
+	});
+
+	it('reads the largest AVIF ispe box', () => {
+		const avif = bytes(
+			u32be(20), 'ftyp', 'avif', u32be(0), 'mif1',
+			u32be(20), 'ispe', u32be(0), u32be(160), u32be(90),
+			u32be(20), 'ispe', u32be(0), u32be(1920), u32be(1080),
+		);
+		expect(readImageInfo(avif)).toEqual({ width: 1920, height: 1080, format: 'avif', mimeType: 'image/avif' });
+	});
+
+	it('returns null for unknown or truncated data', () => {
+		expect(readImageInfo(bytes('<!doctype html><html>'))).toBeNull();
+		expect(readImageInfo(jpeg(1280, 720).subarray(0, 30))).toBeNull();
+		expect(readImageInfo(new Uint8Array(4))).toBeNull();
+	});
+});
+
+describe('readImageHeader', () => {
+	it('stops reading once the header is parsed', async () => {
+		const image = jpeg(480, 360);
+		let pulls = 0;
+		const body = new ReadableStream<Uint8Array>({
+			pull(controller) {
+				pulls++;
+				if (pulls === 1) controller.enqueue(image.subarray(0, 20));
+				else if (pulls === 2) controller.enqueue(image.subarray(20));
+				else controller.enqueue(new Uint8Array(1024));
+			},
+		});
+
+		const info = await readImageHeader(new Response(body));
+
+		expect(info).toMatchObject({ width: 480, height: 360 });
+		expect(pulls).toBeLessThanOrEqual(3);
+	});
+
+	it('gives up after the byte budget', async () => {
+		const info = await readImageHeader(new Response(new Uint8Array(4096)), 1024);
+		expect(info).toBeNull();
+	});
+
+	it('returns null without a body', async () => {
+		expect(await readImageHeader(new Response(null))).toBeNull();
+	});
+});
+
+describe('probeImage', () => {
+	let mockFetch: ReturnType<typeof vi.fn>;
+
+	beforeEach(() => {
+		mockFetch = vi.fn();
+		vi.stubGlobal('fetch', mockFetch);
+		configureRequestGuard({ lookup: async () => [{ address: '93.184.216.34', family: 4 }] });
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+		resetRequestGuard();
+	});
+
+	it('requests only the first bytes of the image', async () => {
+		mockFetch.mockResolvedValueOnce(new Response(png(850, 480), { status: 206 }));
+
+		const info = await probeImage('https://cdn.example.org/thumb.png', 4096);
+
+		expect(info).toMatchObject({ width: 850, height: 480, format: 'png' });
+		expect(mockFetch).toHaveBeenCalledWith('https://cdn.example.org/thumb.png', {
+			headers: { Range: 'bytes=0-4095' },
+			redirect: 'manual',
+		});
+	});
+
+	it('returns null for error responses', async () => {
+		mockFetch.mockResolvedValueOnce(new Response('missing', { status: 404 }));
+		expect(await probeImage('https://cdn.example.org/thumb.png')).toBeNull();
+	});
+});
@@ -0,0 +1,177 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createOEmbedProvider, discoverOEmbedUrl } from '../src/oembed.js';
+import { registerThumbnailProvider, resetThumbnailProviders, detectPlatform } from '../src/providers.js';
+import { getVideoThumbnail, clearThumbnailCache, resolveVideoThumbnail } from '../src/cache.js';
+import { configureRequestGuard, resetRequestGuard } from '../src/guard.js';
+import { configureRetries, resetRetryConfig } from '../src/retry.js';
+import { htmlResponse } from './helpers.js';
+
+function oembedResponse(data: Record<string, unknown>) {
+	return { ok: true, json: async () => data };
+}
+
+const PAGE = `<html><head>
+	<title>Clip</title>
+	<link rel="alternate" type="application/json+oembed" href="/oembed?url=https%3A%2F%2Fvideos.example.org%2Fclip%2F1&amp;format=json">
+	<link rel="alternate" type="text/xml+oembed" href="/oembed.xml">
+</head><body></body></html>`;
+
+describe('discoverOEmbedUrl', () => {
+	let mockFetch: ReturnType<typeof vi.fn>;
+
+	beforeEach(() => {
+		mockFetch = vi.fn();
+		vi.stubGlobal('fetch', mockFetch);
+		configureRequestGuard({ lookup: async () => [{ address: '93.184.216.34', family: 4 }] });
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+		resetRequestGuard();
+	});
+
+	it('finds the JSON oEmbed link and resolves it against the page', async () => {
+		mockFetch.mockResolvedValueOnce(htmlResponse(PAGE));
+
+		const url = await discoverOEmbedUrl('https://videos.example.org/clip/1');
+
+		expect(url).toBe('https://videos.example.org/oembed?url=https%3A%2F%2Fvideos.example.org%2Fclip%2F1&format=json');
+	});
+
+	it('returns null when the page has no oEmbed link', async () => {
+		mockFetch.mockResolvedValueOnce(htmlResponse('<html><head><title>x</title></head></html>'));
+
+		expect(await discoverOEmbedUrl('https://videos.example.org/clip/1')).toBeNull();
+	});
+
+	it('returns null for non-HTML responses', async () => {
+		mockFetch.mockResolvedValueOnce(new Response('{}', { headers: { 'content-type': 'application/json' } }));
+
+		expect(await discoverOEmbedUrl('https://videos.example.org/clip/1')).toBeNull();
+	});
+
+	it('returns null when the page request fails', async () => {
+		mockFetch.mockResolvedValueOnce({ ok: false });
+
+		expect(await discoverOEmbedUrl('https://videos.example.org/clip/1')).toBeNull();
+	});
+
+	it('does not fetch pages on blocked hosts', async () => {
+		expect(await discoverOEmbedUrl('http://127.0.0.1/clip/1')).toBeNull();
+		expect(mockFetch).not.toHaveBeenCalled();
+	});
+});
+
+describe('createOEmbedProvider', () => {
+	let mockFetch: ReturnType<typeof vi.fn>;
+
+	beforeEach(async () => {
+		mockFetch = vi.fn();
+		vi.stubGlobal('fetch', mockFetch);
+		configureRequestGuard({ lookup: async () => [{ address: '93.184.216.34', family: 4 }] });
+		resetThumbnailProviders();
+		await clearThumbnailCache();
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+		resetRequestGuard();
+		resetThumbnailProviders();
+	});
+
+	it('is not registered by default', () => {
+		expect(detectPlatform('https://videos.example.org/clip/1')).toBeNull();
+	});
+
+	it('acts as a fallback behind the built-in providers', () => {
+		registerThumbnailProvider(createOEmbedProvider());
+
+		expect(detectPlatform('https://videos.example.org/clip/1')).toBe('oembed');
+		expect(detectPlatform('https://vimeo.com/123456')).toBe('vimeo');
+	});
+
+	it('resolves thumbnails via discovery', async () => {
+		registerThumbnailProvider(createOEmbedProvider());
+		mockFetch
+			.mockResolvedValueOnce(htmlResponse(PAGE))
+			.mockResolvedValueOnce(oembedResponse({
+				thumbnail_url: 'https://videos.example.org/thumb.jpg',
+				thumbnail_width: 1280,
+				thumbnail_height: 720,
+			}));
+
+		const result = await getVideoThumbnail('https://videos.example.org/clip/1');
+
+		expect(result).toEqual({
+			url: 'https://videos.example.org/thumb.jpg',
+			width: 1280,
+			height: 720,
+			format: 'jpeg',
+			platform: 'oembed',
+			cached: false,
+			variants: [{ url: 'https://videos.example.org/thumb.jpg', width: 1280, height: 720, format: 'jpeg' }],
+		});
+	});
+
+	it('uses a matching static endpoint without fetching the page', async () => {
+		registerThumbnailProvider(createOEmbedProvider({
+			discover: false,
+			endpoints: [{ schemes: ['https://*.example.net/watch/*'], url: 'https://api.example.net/oembed.{format}' }],
+		}));
+		mockFetch.mockResolvedValueOnce(oembedResponse({ thumbnail_url: 'https://cdn.example.net/t.jpg' }));
+
+		const result = await getVideoThumbnail('https://www.example.net/watch/42');
+
+		expect(mockFetch).toHaveBeenCalledTimes(1);
+		expect(mockFetch.mock.calls[0]?.[0]).toBe(
+			`https://api.example.net/oembed.json?format=json&url=${encodeURIComponent('https://www.example.net/watch/42')}`,
+		);
+		expect(result?.url).toBe('https://cdn.example.net/t.jpg');
+	});
+
+	it('reports why discovery failed', async () => {
+		const error = new TypeError('fetch failed');
+		registerThumbnailProvider(createOEmbedProvider());
+		configureRetries({ maxAttempts: 1 });
+		mockFetch.mockResolvedValueOnce({ ok: false, status: 429 }).mockRejectedValueOnce(error);
+
+		try {
+			expect(await resolveVideoThumbnail('https://videos.example.org/clip/1')).toEqual({
+				ok: false,
+				reason: 'rate_limited',
+				status: 429,
+			});
+			expect(await resolveVideoThumbnail('https://videos.example.org/clip/2')).toEqual({
+				ok: false,
+				reason: 'network',
+				cause: error,
+			});
+		} finally {
+			resetRetryConfig();
+		}
+	});
+
+	it('reports pages without an oEmbed link as unsupported', async () => {
+		registerThumbnailProvider(createOEmbedProvider());
+		mockFetch.mockResolvedValueOnce(htmlResponse('<head><title>no oembed</title></head>'));
+
+		expect(await resolveVideoThumbnail('https://videos.example.org/clip/1')).toEqual({ ok: false, reason: 'unsupported' });
+	});
+
+	it('only matches static endpoints when discovery is disabled', () => {
+		registerThumbnailProvider(createOEmbedProvider({
+			discover: false,
+			endpoints: [{ schemes: ['https://*.example.net/watch/*'], url: 'https://api.example.net/oembed' }],
+		}));
+
+		expect(detectPlatform('https://www.example.net/watch/42')).toBe('oembed');
+		expect(detectPlatform('https://videos.example.org/clip/1')).toBeNull();
+	});
+
+	it('returns null when nothing is discovered', async () => {
+		registerThumbnailProvider(createOEmbedProvider());
+		mockFetch.mockResolvedValueOnce(htmlResponse('<html><head></head></html>'));
+
+		expect(await getVideoThumbnail('https://videos.example.org/clip/1')).toBeNull();
+	});
+});
@@ -0,0 +1,196 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createOpenGraphProvider, resolveOpenGraphImage, scrapeOpenGraphImage } from '../src/opengraph.js';
+import { createOEmbedProvider } from '../src/oembed.js';
+import { registerThumbnailProvider, resetThumbnailProviders, detectPlatform } from '../src/providers.js';
+import { getVideoThumbnail, clearThumbnailCache, getCacheStats, resolveVideoThumbnail } from '../src/cache.js';
+import { configureRequestGuard, resetRequestGuard } from '../src/guard.js';
+import { configureRetries, resetRetryConfig } from '../src/retry.js';
+import { htmlResponse } from './helpers.js';
+
+const VIDEO_PAGE = `<!doctype html><html><head>
+	<meta property="og:type" content="video.other">
+	<meta property="og:video" content="https://media.example.org/clip.mp4">
+	<meta property="og:image" content="/posters/clip.jpg">
+	<meta property="og:image:width" content="1920">
+	<meta property="og:image:height" content="1080">
+	<meta name="twitter:image" content="https://media.example.org/twitter.jpg">
+</head><body></body></html>`;
+
+describe('scrapeOpenGraphImage', () => {
+	let mockFetch: ReturnType<typeof vi.fn>;
+
+	beforeEach(() => {
+		mockFetch = vi.fn();
+		vi.stubGlobal('fetch', mockFetch);
+		configureRequestGuard({ lookup: async () => [{ address: '93.184.216.34', family: 4 }] });
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+		resetRequestGuard();
+	});
+
+	it('returns og:image with declared dimensions', async () => {
+		mockFetch.mockResolvedValueOnce(htmlResponse(VIDEO_PAGE));
+
+		const result = await scrapeOpenGraphImage('https://media.example.org/watch/clip');
+
+		expect(result).toEqual({
+			url: 'https://media.example.org/posters/clip.jpg',
+			width: 1920,
+			height: 1080,
+			format: 'jpeg',
+			platform: 'generic',
+			cached: false,
+			variants: [{ url: 'https://media.example.org/posters/clip.jpg', width: 1920, height: 1080, format: 'jpeg' }],
+		});
+	});
+
+	it('prefers og:image:secure_url', async () => {
+		mockFetch.mockResolvedValueOnce(htmlResponse(`<head>
+			<meta property="og:image" content="http://media.example.org/a.jpg">
+			<meta property="og:image:secure_url" content="https://media.example.org/a.jpg">
+		</head>`));
+
+		const result = await scrapeOpenGraphImage('https://media.example.org/watch/clip');
+		expect(result?.url).toBe('https://media.example.org/a.jpg');
+	});
+
+	it('falls back to twitter:image with unknown dimensions', async () => {
+		mockFetch.mockResolvedValueOnce(htmlResponse(`<head>
+			<meta name="twitter:image" content="https://media.example.org/twitter.jpg">
+			<meta property="og:image:width" content="1920">
+		</head>`));
+
+		const result = await scrapeOpenGraphImage('https://media.example.org/watch/clip');
+		expect(result).toMatchObject({ url: 'https://media.example.org/twitter.jpg', width: 0, height: 0 });
+	});
+
+	it('ignores meta tags after the head', async () => {
+		mockFetch.mockResolvedValueOnce(htmlResponse(`<head><title>x</title></head>
+			<body><meta property="og:image" content="https://media.example.org/late.jpg"></body>`));
+
+		expect(await scrapeOpenGraphImage('https://media.example.org/watch/clip')).toBeNull();
+	});
+
+	it('respects the byte budget', async () => {
+		const padding = `<meta name="description" content="${'x'.repeat(2000)}">`;
+		mockFetch.mockResolvedValueOnce(htmlResponse(`<head>${padding}<meta property="og:image" content="/a.jpg"></head>`));
+
+		expect(await scrapeOpenGraphImage('https://media.example.org/watch/clip', { maxBytes: 1024 })).toBeNull();
+	});
+
+	it('requires a video page when configured', async () => {
+		mockFetch.mockResolvedValueOnce(htmlResponse('<head><meta property="og:image" content="/a.jpg"></head>'));
+
+		expect(await scrapeOpenGraphImage('https://blog.example.org/post', { requireVideo: true })).toBeNull();
+	});
+
+	it('accepts video pages when a video is required', async () => {
+		mockFetch.mockResolvedValueOnce(htmlResponse(VIDEO_PAGE));
+
+		const result = await scrapeOpenGraphImage('https://media.example.org/watch/clip', { requireVideo: true });
+		expect(result?.url).toBe('https://media.example.org/posters/clip.jpg');
+	});
+
+	it('rejects non-http image URLs', async () => {
+		mockFetch.mockResolvedValueOnce(htmlResponse('<head><meta property="og:image" content="javascript:alert(1)"></head>'));
+
+		expect(await scrapeOpenGraphImage('https://media.example.org/watch/clip')).toBeNull();
+	});
+
+	it('returns null for non-HTML responses and failures', async () => {
+		mockFetch
+			.mockResolvedValueOnce(new Response('binary', { headers: { 'content-type': 'video/mp4' } }))
+			.mockResolvedValueOnce({ ok: false })
+			.mockRejectedValueOnce(new Error('Network error'));
+
+		expect(await scrapeOpenGraphImage('https://media.example.org/a')).toBeNull();
+		expect(await scrapeOpenGraphImage('https://media.example.org/b')).toBeNull();
+		expect(await scrapeOpenGraphImage('https://media.example.org/c')).toBeNull();
+	});
+
+	it('reports why the page could not be scraped', async () => {
+		const error = new TypeError('fetch failed');
+		configureRetries({ maxAttempts: 1 });
+		mockFetch
+			.mockResolvedValueOnce({ ok: false, status: 503 })
+			.mockRejectedValueOnce(error)
+			.mockResolvedValueOnce(htmlResponse('<head><title>no image</title></head>'));
+
+		try {
+			expect(await resolveOpenGraphImage('https://media.example.org/a')).toEqual({ ok: false, reason: 'network', status: 503 });
+			expect(await resolveOpenGraphImage('https://media.example.org/b')).toEqual({ ok: false, reason: 'network', cause: error });
+			expect(await resolveOpenGraphImage('https://media.example.org/c')).toEqual({ ok: false, reason: 'not_found' });
+		} finally {
+			resetRetryConfig();
+		}
+	});
+});
+
+describe('createOpenGraphProvider', () => {
+	let mockFetch: ReturnType<typeof vi.fn>;
+
+	beforeEach(async () => {
+		mockFetch = vi.fn();
+		vi.stubGlobal('fetch', mockFetch);
+		configureRequestGuard({ lookup: async () => [{ address: '93.184.216.34', family: 4 }] });
+		resetThumbnailProviders();
+		await clearThumbnailCache();
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+		resetRequestGuard();
+		resetThumbnailProviders();
+	});
+
+	it('resolves unknown hosts through getVideoThumbnail', async () => {
+		registerThumbnailProvider(createOpenGraphProvider());
+		mockFetch.mockResolvedValueOnce(htmlResponse(VIDEO_PAGE));
+
+		const result = await getVideoThumbnail('https://media.example.org/watch/clip');
+
+		expect(detectPlatform('https://media.example.org/watch/clip')).toBe('generic');
+		expect(result?.platform).toBe('generic');
+	});
+
+	it('is tried after oEmbed discovery finds nothing', async () => {
+		registerThumbnailProvider(createOpenGraphProvider());
+		registerThumbnailProvider(createOEmbedProvider());
+		mockFetch
+			.mockResolvedValueOnce(htmlResponse('<head><title>no oembed</title></head>'))
+			.mockResolvedValueOnce(htmlResponse(VIDEO_PAGE));
+
+		const result = await getVideoThumbnail('https://media.example.org/watch/clip');
+
+		expect(result?.url).toBe('https://media.example.org/posters/clip.jpg');
+		expect(mockFetch).toHaveBeenCalledTimes(2);
+		expect((await getCacheStats()).keys).toEqual(['oembed:media.example.org:/watch/clip']);
+	});
+
+	it('reports a rate-limited page behind an oEmbed miss', async () => {
+		registerThumbnailProvider(createOpenGraphProvider());
+		registerThumbnailProvider(createOEmbedProvider());
+		configureRetries({ maxAttempts: 1 });
+		mockFetch
+			.mockResolvedValueOnce(htmlResponse('<head><title>no oembed</title></head>'))
+			.mockResolvedValueOnce({ ok: false, status: 429 });
+
+		try {
+			const outcome = await resolveVideoThumbnail('https://media.example.org/watch/clip');
+
+			expect(outcome).toEqual({ ok: false, reason: 'rate_limited', status: 429 });
+		} finally {
+			resetRetryConfig();
+		}
+	});
+
+	it('is not consulted for URLs a platform provider handles', async () => {
+		registerThumbnailProvider(createOpenGraphProvider());
+		mockFetch.mockResolvedValue({ ok: false });
+
+		expect(await getVideoThumbnail('https://vimeo.com/123456')).toBeNull();
+		expect(mockFetch).toHaveBeenCalledTimes(1);
+	});
+});
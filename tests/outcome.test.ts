@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import {
+	failureFromError,
+	failureFromStatus,
+	isThumbnailFailure,
+	mostRelevantFailure,
+	successOrNull,
+	thumbnailFailure,
+} from '../src/outcome.js';
+import { BlockedRequestError } from '../src/guard.js';
+import type { ThumbnailResult } from '../src/types.js';
+
+const result: ThumbnailResult = {
+	url: 'https://x.test/a.jpg',
+	width: 640,
+	height: 360,
+	format: 'jpeg',
+	platform: 'vimeo',
+	cached: false,
+	variants: [],
+};
+
+describe('failureFromStatus', () => {
+	it('maps HTTP statuses to failure reasons', () => {
+		expect(failureFromStatus(404)).toEqual({ ok: false, reason: 'not_found', status: 404 });
+		expect(failureFromStatus(410).reason).toBe('not_found');
+		expect(failureFromStatus(401).reason).toBe('private');
+		expect(failureFromStatus(403).reason).toBe('private');
+		expect(failureFromStatus(429).reason).toBe('rate_limited');
+		expect(failureFromStatus(503).reason).toBe('network');
+		expect(failureFromStatus(408).reason).toBe('network');
+		expect(failureFromStatus(400).reason).toBe('invalid_response');
+	});
+});
+
+describe('failureFromError', () => {
+	it('classifies thrown errors and keeps the cause', () => {
+		const blocked = new BlockedRequestError('blocked', 'http://127.0.0.1/');
+		const parse = new SyntaxError('Unexpected token');
+		const network = new TypeError('fetch failed');
+
+		expect(failureFromError(blocked)).toEqual({ ok: false, reason: 'unsupported', cause: blocked });
+		expect(failureFromError(parse)).toEqual({ ok: false, reason: 'invalid_response', cause: parse });
+		expect(failureFromError(network)).toEqual({ ok: false, reason: 'network', cause: network });
+	});
+
+	it('rethrows once the signal is aborted', () => {
+		const controller = new AbortController();
+		controller.abort(new Error('stop'));
+
+		expect(() => failureFromError(new TypeError('fetch failed'), controller.signal)).toThrow('stop');
+	});
+});
+
+describe('mostRelevantFailure', () => {
+	it('prefers transient failures over missing sizes', () => {
+		const failures = [failureFromStatus(404), failureFromStatus(429), failureFromStatus(404)];
+		expect(mostRelevantFailure(failures)).toEqual({ ok: false, reason: 'rate_limited', status: 429 });
+	});
+
+	it('returns undefined without failures', () => {
+		expect(mostRelevantFailure([])).toBeUndefined();
+	});
+});
+
+describe('successOrNull', () => {
+	it('keeps results and drops failures', () => {
+		expect(successOrNull(result)).toBe(result);
+		expect(successOrNull(thumbnailFailure('not_found'))).toBeNull();
+		expect(successOrNull(null)).toBeNull();
+	});
+
+	it('recognises failures by their ok flag', () => {
+		expect(isThumbnailFailure(thumbnailFailure('network'))).toBe(true);
+		expect(isThumbnailFailure(result)).toBe(false);
+		expect(isThumbnailFailure(null)).toBe(false);
+	});
+});
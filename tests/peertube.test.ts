@@ -0,0 +1,195 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+	configurePeerTube,
+	resetPeerTubeConfig,
+	isAllowedPeerTubeInstance,
+	mayBePeerTubeInstance,
+	verifyPeerTubeInstance,
+	isTrustedPeerTubeInstance,
+} from '../src/peertube.js';
+import { configureRequestGuard, resetRequestGuard } from '../src/guard.js';
+import { configureRetries, resetRetryConfig } from '../src/retry.js';
+
+beforeEach(() => {
+	configureRequestGuard({ lookup: async () => [{ address: '93.184.216.34', family: 4 }] });
+});
+
+afterEach(() => {
+	resetRequestGuard();
+});
+
+function nodeInfoIndex(href: string) {
+	return {
+		ok: true,
+		json: async () => ({
+			links: [{ rel: 'http://nodeinfo.diaspora.software/ns/schema/2.1', href }],
+		}),
+	};
+}
+
+function nodeInfo(name: string) {
+	return {
+		ok: true,
+		json: async () => ({ software: { name } }),
+	};
+}
+
+describe('PeerTube instance allowlist', () => {
+	afterEach(() => {
+		resetPeerTubeConfig();
+	});
+
+	it('accepts hostnames and origins', () => {
+		configurePeerTube({ instances: ['tube.example.org', 'https://Video.Example.com:8443/'] });
+
+		expect(isAllowedPeerTubeInstance(new URL('https://tube.example.org/w/abc'))).toBe(true);
+		expect(isAllowedPeerTubeInstance(new URL('https://video.example.com:8443/w/abc'))).toBe(true);
+		expect(isAllowedPeerTubeInstance(new URL('https://video.example.com/w/abc'))).toBe(false);
+	});
+
+	it('replaces the allowlist on reconfiguration', () => {
+		configurePeerTube({ instances: ['a.example.org'] });
+		configurePeerTube({ instances: ['b.example.org'] });
+
+		expect(isAllowedPeerTubeInstance(new URL('https://a.example.org/'))).toBe(false);
+		expect(isAllowedPeerTubeInstance(new URL('https://b.example.org/'))).toBe(true);
+	});
+
+	it('does not consider unknown hosts without verification', () => {
+		expect(mayBePeerTubeInstance(new URL('https://example.com/w/anything'))).toBe(false);
+	});
+});
+
+describe('verifyPeerTubeInstance', () => {
+	let mockFetch: ReturnType<typeof vi.fn>;
+
+	beforeEach(() => {
+		mockFetch = vi.fn();
+		vi.stubGlobal('fetch', mockFetch);
+		configurePeerTube({ verify: true });
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+		vi.useRealTimers();
+		resetPeerTubeConfig();
+		resetRetryConfig();
+	});
+
+	it('accepts servers reporting PeerTube software', async () => {
+		mockFetch
+			.mockResolvedValueOnce(nodeInfoIndex('https://tube.example.org/nodeinfo/2.1.json'))
+			.mockResolvedValueOnce(nodeInfo('PeerTube'));
+
+		expect(await verifyPeerTubeInstance('https://tube.example.org')).toBe(true);
+	});
+
+	it('rejects servers reporting other software', async () => {
+		mockFetch
+			.mockResolvedValueOnce(nodeInfoIndex('https://social.example.org/nodeinfo/2.0'))
+			.mockResolvedValueOnce(nodeInfo('mastodon'));
+
+		expect(await verifyPeerTubeInstance('https://social.example.org')).toBe(false);
+		expect(mayBePeerTubeInstance(new URL('https://social.example.org/w/abc'))).toBe(false);
+	});
+
+	it('rejects servers without nodeinfo', async () => {
+		mockFetch.mockResolvedValueOnce({ ok: false });
+
+		expect(await verifyPeerTubeInstance('https://example.com')).toBe(false);
+		expect(mockFetch).toHaveBeenCalledTimes(1);
+	});
+
+	it('ignores nodeinfo links pointing at another origin', async () => {
+		mockFetch.mockResolvedValueOnce(nodeInfoIndex('https://elsewhere.example.net/nodeinfo/2.1'));
+
+		expect(await verifyPeerTubeInstance('https://tube.example.org')).toBe(false);
+		expect(mockFetch).toHaveBeenCalledTimes(1);
+	});
+
+	it('caches the verification result per origin', async () => {
+		mockFetch
+			.mockResolvedValueOnce(nodeInfoIndex('/nodeinfo/2.1.json'))
+			.mockResolvedValueOnce(nodeInfo('peertube'));
+
+		await verifyPeerTubeInstance('https://tube.example.org');
+		await verifyPeerTubeInstance('https://tube.example.org');
+
+		expect(mockFetch).toHaveBeenCalledTimes(2);
+	});
+
+	it('verifies an origin again once the result expires', async () => {
+		vi.useFakeTimers();
+		configurePeerTube({ verificationTtlMs: 1000 });
+		mockFetch
+			.mockResolvedValueOnce(nodeInfoIndex('/nodeinfo/2.1.json'))
+			.mockResolvedValueOnce(nodeInfo('peertube'))
+			.mockResolvedValueOnce(nodeInfoIndex('/nodeinfo/2.1.json'))
+			.mockResolvedValueOnce(nodeInfo('mastodon'));
+
+		expect(await verifyPeerTubeInstance('https://tube.example.org')).toBe(true);
+		vi.advanceTimersByTime(1000);
+
+		expect(await verifyPeerTubeInstance('https://tube.example.org')).toBe(false);
+		expect(mockFetch).toHaveBeenCalledTimes(4);
+	});
+
+	it('forgets the oldest origins beyond the size limit', async () => {
+		configurePeerTube({ maxVerifiedInstances: 2 });
+		mockFetch.mockImplementation(async (url: string) =>
+			url.endsWith('/.well-known/nodeinfo') ? nodeInfoIndex('/nodeinfo/2.1.json') : nodeInfo('mastodon'),
+		);
+
+		for (const origin of ['https://a.example.org', 'https://b.example.org', 'https://c.example.org']) {
+			await verifyPeerTubeInstance(origin);
+		}
+		mockFetch.mockClear();
+
+		await verifyPeerTubeInstance('https://c.example.org');
+		await verifyPeerTubeInstance('https://b.example.org');
+		expect(mockFetch).not.toHaveBeenCalled();
+
+		await verifyPeerTubeInstance('https://a.example.org');
+		expect(mockFetch).toHaveBeenCalledTimes(2);
+	});
+
+	it('shares a verification in flight', async () => {
+		mockFetch
+			.mockResolvedValueOnce(nodeInfoIndex('/nodeinfo/2.1.json'))
+			.mockResolvedValueOnce(nodeInfo('peertube'));
+
+		const results = await Promise.all([
+			verifyPeerTubeInstance('https://tube.example.org'),
+			verifyPeerTubeInstance('https://tube.example.org'),
+		]);
+
+		expect(results).toEqual([true, true]);
+		expect(mockFetch).toHaveBeenCalledTimes(2);
+	});
+
+	it('does not cache network failures', async () => {
+		mockFetch.mockRejectedValueOnce(new Error('Network error'));
+
+		expect(await verifyPeerTubeInstance('https://tube.example.org')).toBe(false);
+		expect(mayBePeerTubeInstance(new URL('https://tube.example.org/w/abc'))).toBe(true);
+	});
+
+	it('verifies again once a failing nodeinfo endpoint recovers', async () => {
+		configureRetries({ maxAttempts: 1 });
+		mockFetch
+			.mockResolvedValueOnce({ ok: false, status: 503 })
+			.mockResolvedValueOnce(nodeInfoIndex('/nodeinfo/2.1.json'))
+			.mockResolvedValueOnce(nodeInfo('peertube'));
+
+		expect(await verifyPeerTubeInstance('https://tube.example.org')).toBe(false);
+		expect(mayBePeerTubeInstance(new URL('https://tube.example.org/w/abc'))).toBe(true);
+		expect(await verifyPeerTubeInstance('https://tube.example.org')).toBe(true);
+	});
+
+	it('skips verification for allowlisted instances', async () => {
+		configurePeerTube({ instances: ['tube.example.org'] });
+
+		expect(await isTrustedPeerTubeInstance(new URL('https://tube.example.org/w/abc'))).toBe(true);
+		expect(mockFetch).not.toHaveBeenCalled();
+	});
+});
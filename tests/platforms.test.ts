@@ -1,34 +1,46 @@
-import { describe, it, expect } from 'vitest';
-import { detectPlatform, extractYouTubeId } from '../src/platforms.js';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+	extractYouTubeId,
+	extractDailymotionId,
+	parseVimeoUrl,
+	parseTwitchUrl,
+	parseStartTime,
+} from '../src/platforms.js';
+import { detectPlatform } from '../src/providers.js';
+import { configurePeerTube, resetPeerTubeConfig } from '../src/peertube.js';
 
 describe('detectPlatform', () => {
 	describe('YouTube detection', () => {
 		it('detects youtube.com', () => {
-			expect(detectPlatform('https://www.youtube.com/watch?v=abc123')).toBe('youtube');
+			expect(detectPlatform('https://www.youtube.com/watch?v=abc123xxxxx')).toBe('youtube');
 		});
 
 		it('detects youtube.com without www', () => {
-			expect(detectPlatform('https://youtube.com/watch?v=abc123')).toBe('youtube');
+			expect(detectPlatform('https://youtube.com/watch?v=abc123xxxxx')).toBe('youtube');
 		});
 
 		it('detects youtu.be short links', () => {
-			expect(detectPlatform('https://youtu.be/abc123')).toBe('youtube');
+			expect(detectPlatform('https://youtu.be/abc123xxxxx')).toBe('youtube');
 		});
 
 		it('detects youtube.com/embed', () => {
-			expect(detectPlatform('https://youtube.com/embed/abc123')).toBe('youtube');
+			expect(detectPlatform('https://youtube.com/embed/abc123xxxxx')).toBe('youtube');
 		});
 
 		it('detects youtube.com/v/', () => {
-			expect(detectPlatform('https://youtube.com/v/abc123')).toBe('youtube');
+			expect(detectPlatform('https://youtube.com/v/abc123xxxxx')).toBe('youtube');
 		});
 
 		it('detects youtube.com/shorts/', () => {
-			expect(detectPlatform('https://youtube.com/shorts/abc123')).toBe('youtube');
+			expect(detectPlatform('https://youtube.com/shorts/abc123xxxxx')).toBe('youtube');
+		});
+
+		it('detects youtube-nocookie.com', () => {
+			expect(detectPlatform('https://www.youtube-nocookie.com/embed/dQw4w9WgXcQ')).toBe('youtube');
 		});
 
 		it('is case-insensitive for hostname', () => {
-			expect(detectPlatform('https://YOUTUBE.COM/watch?v=abc')).toBe('youtube');
+			expect(detectPlatform('https://YOUTUBE.COM/watch?v=abcxxxxxxxx')).toBe('youtube');
 		});
 	});
 
@@ -46,7 +58,35 @@ describe('detectPlatform', () => {
 		});
 	});
 
+	describe('Dailymotion detection', () => {
+		it('detects dailymotion.com', () => {
+			expect(detectPlatform('https://www.dailymotion.com/video/x7tgad0')).toBe('dailymotion');
+		});
+
+		it('detects dai.ly short links', () => {
+			expect(detectPlatform('https://dai.ly/x7tgad0')).toBe('dailymotion');
+		});
+	});
+
+	describe('Twitch detection', () => {
+		it('detects twitch.tv VODs', () => {
+			expect(detectPlatform('https://www.twitch.tv/videos/1234567890')).toBe('twitch');
+		});
+
+		it('detects clips.twitch.tv', () => {
+			expect(detectPlatform('https://clips.twitch.tv/FunnySlugName-abc123')).toBe('twitch');
+		});
+	});
+
 	describe('PeerTube detection', () => {
+		beforeEach(() => {
+			configurePeerTube({ instances: ['peertube.example.com', 'https://video.mycommunity.org'] });
+		});
+
+		afterEach(() => {
+			resetPeerTubeConfig();
+		});
+
 		it('detects /videos/watch/ path', () => {
 			expect(detectPlatform('https://peertube.example.com/videos/watch/abc-123')).toBe('peertube');
 		});
@@ -55,9 +95,18 @@ describe('detectPlatform', () => {
 			expect(detectPlatform('https://peertube.example.com/w/abc-123')).toBe('peertube');
 		});
 
-		it('detects PeerTube on any domain', () => {
+		it('detects PeerTube on an allowlisted instance given as an origin', () => {
 			expect(detectPlatform('https://video.mycommunity.org/videos/watch/abc-def')).toBe('peertube');
 		});
+
+		it('does not detect PeerTube paths on unknown hosts', () => {
+			expect(detectPlatform('https://example.com/w/anything')).toBeNull();
+		});
+
+		it('treats unknown hosts as candidates when verification is enabled', () => {
+			configurePeerTube({ verify: true });
+			expect(detectPlatform('https://tube.other.org/w/abc-123')).toBe('peertube');
+		});
 	});
 
 	describe('unknown and invalid URLs', () => {
@@ -65,10 +114,6 @@ describe('detectPlatform', () => {
 			expect(detectPlatform('https://example.com/video')).toBeNull();
 		});
 
-		it('returns null for dailymotion', () => {
-			expect(detectPlatform('https://www.dailymotion.com/video/x7tgad0')).toBeNull();
-		});
-
 		it('returns null for invalid URL', () => {
 			expect(detectPlatform('not-a-url')).toBeNull();
 		});
@@ -98,7 +143,7 @@ describe('extractYouTubeId', () => {
 		});
 
 		it('extracts ID with list param', () => {
-			expect(extractYouTubeId('https://www.youtube.com/watch?v=abc123&list=PLxyz')).toBe('abc123');
+			expect(extractYouTubeId('https://www.youtube.com/watch?v=abc123xxxxx&list=PLxyz')).toBe('abc123xxxxx');
 		});
 	});
 
@@ -108,7 +153,7 @@ describe('extractYouTubeId', () => {
 		});
 
 		it('extracts ID from youtu.be with params', () => {
-			expect(extractYouTubeId('https://youtu.be/abc123?t=10')).toBe('abc123');
+			expect(extractYouTubeId('https://youtu.be/abc123xxxxx?t=10')).toBe('abc123xxxxx');
 		});
 	});
 
@@ -118,7 +163,7 @@ describe('extractYouTubeId', () => {
 		});
 
 		it('extracts ID from /embed/ with params', () => {
-			expect(extractYouTubeId('https://www.youtube.com/embed/abc123?autoplay=1')).toBe('abc123');
+			expect(extractYouTubeId('https://www.youtube.com/embed/abc123xxxxx?autoplay=1')).toBe('abc123xxxxx');
 		});
 	});
 
@@ -128,7 +173,7 @@ describe('extractYouTubeId', () => {
 		});
 
 		it('extracts ID from /v/ with params', () => {
-			expect(extractYouTubeId('https://www.youtube.com/v/abc123?version=3')).toBe('abc123');
+			expect(extractYouTubeId('https://www.youtube.com/v/abc123xxxxx?version=3')).toBe('abc123xxxxx');
 		});
 	});
 
@@ -138,7 +183,68 @@ describe('extractYouTubeId', () => {
 		});
 
 		it('extracts ID from /shorts/ with params', () => {
-			expect(extractYouTubeId('https://www.youtube.com/shorts/abc123?feature=share')).toBe('abc123');
+			expect(extractYouTubeId('https://www.youtube.com/shorts/abc123xxxxx?feature=share')).toBe('abc123xxxxx');
+		});
+	});
+
+	describe('additional URL shapes', () => {
+		it('extracts ID from /live/ URLs', () => {
+			expect(extractYouTubeId('https://www.youtube.com/live/dQw4w9WgXcQ?si=abc')).toBe('dQw4w9WgXcQ');
+		});
+
+		it('extracts ID from music.youtube.com', () => {
+			expect(extractYouTubeId('https://music.youtube.com/watch?v=dQw4w9WgXcQ&feature=share')).toBe('dQw4w9WgXcQ');
+		});
+
+		it('extracts ID from youtube-nocookie.com embeds', () => {
+			expect(extractYouTubeId('https://www.youtube-nocookie.com/embed/dQw4w9WgXcQ?rel=0')).toBe('dQw4w9WgXcQ');
+		});
+
+		it('extracts ID from attribution links', () => {
+			const url = 'https://www.youtube.com/attribution_link?a=xyz&u=%2Fwatch%3Fv%3DdQw4w9WgXcQ%26feature%3Dshare';
+			expect(extractYouTubeId(url)).toBe('dQw4w9WgXcQ');
+		});
+
+		it('extracts ID when v is not the first query parameter', () => {
+			expect(extractYouTubeId('https://www.youtube.com/watch?feature=share&v=dQw4w9WgXcQ')).toBe('dQw4w9WgXcQ');
+		});
+
+		it('extracts ID from /e/ URLs', () => {
+			expect(extractYouTubeId('https://www.youtube.com/e/dQw4w9WgXcQ')).toBe('dQw4w9WgXcQ');
+		});
+
+		it('extracts ID from mobile URLs', () => {
+			expect(extractYouTubeId('https://m.youtube.com/watch?v=dQw4w9WgXcQ')).toBe('dQw4w9WgXcQ');
+		});
+
+		it('accepts ids containing - and _', () => {
+			expect(extractYouTubeId('https://youtu.be/a-b_c-d_e-f')).toBe('a-b_c-d_e-f');
+		});
+	});
+
+	describe('id validation', () => {
+		it('rejects ids that are not 11 characters', () => {
+			expect(extractYouTubeId('https://www.youtube.com/watch?v=abc123')).toBeNull();
+			expect(extractYouTubeId('https://youtu.be/dQw4w9WgXcQQ')).toBeNull();
+		});
+
+		it('rejects ids with invalid characters', () => {
+			expect(extractYouTubeId('https://www.youtube.com/watch?v=dQw4w9W%3CcQ')).toBeNull();
+		});
+
+		it('rejects playlist-only URLs', () => {
+			expect(extractYouTubeId('https://www.youtube.com/playlist?list=PLabcdefghijk')).toBeNull();
+			expect(extractYouTubeId('https://www.youtube.com/embed/videoseries?list=PLabcdefghijk')).toBeNull();
+		});
+
+		it('rejects channel and handle URLs', () => {
+			expect(extractYouTubeId('https://www.youtube.com/@somechannel')).toBeNull();
+			expect(extractYouTubeId('https://www.youtube.com/c/SomeChannel1')).toBeNull();
+		});
+
+		it('rejects lookalike hosts', () => {
+			expect(extractYouTubeId('https://notyoutube.com/watch?v=dQw4w9WgXcQ')).toBeNull();
+			expect(extractYouTubeId('https://youtube.com.evil.test/watch?v=dQw4w9WgXcQ')).toBeNull();
 		});
 	});
 
@@ -164,3 +270,156 @@ describe('extractYouTubeId', () => {
 		});
 	});
 });
+
+describe('extractDailymotionId', () => {
+	it('extracts ID from /video/ URLs', () => {
+		expect(extractDailymotionId('https://www.dailymotion.com/video/x7tgad0')).toBe('x7tgad0');
+	});
+
+	it('strips the legacy title slug', () => {
+		expect(extractDailymotionId('https://www.dailymotion.com/video/x7tgad0_some-title_news')).toBe('x7tgad0');
+	});
+
+	it('extracts ID from dai.ly short links', () => {
+		expect(extractDailymotionId('https://dai.ly/x7tgad0')).toBe('x7tgad0');
+	});
+
+	it('extracts ID from embed and player URLs', () => {
+		expect(extractDailymotionId('https://www.dailymotion.com/embed/video/x7tgad0')).toBe('x7tgad0');
+		expect(extractDailymotionId('https://geo.dailymotion.com/player.html?video=x7tgad0')).toBe('x7tgad0');
+	});
+
+	it('returns null for non-video pages', () => {
+		expect(extractDailymotionId('https://www.dailymotion.com/someuser')).toBeNull();
+		expect(extractDailymotionId('https://www.dailymotion.com/video/')).toBeNull();
+	});
+
+	it('returns null for other hosts', () => {
+		expect(extractDailymotionId('https://example.com/video/x7tgad0')).toBeNull();
+	});
+});
+
+describe('parseTwitchUrl', () => {
+	it('parses twitch.tv/videos/ID', () => {
+		expect(parseTwitchUrl('https://www.twitch.tv/videos/1234567890?t=1h2m')).toEqual({ kind: 'video', id: '1234567890' });
+	});
+
+	it('parses clips.twitch.tv/SLUG', () => {
+		expect(parseTwitchUrl('https://clips.twitch.tv/FunnySlugName-abc123')).toEqual({
+			kind: 'clip',
+			id: 'FunnySlugName-abc123',
+		});
+	});
+
+	it('parses twitch.tv/CHANNEL/clip/SLUG', () => {
+		expect(parseTwitchUrl('https://www.twitch.tv/somechannel/clip/FunnySlugName-abc123')).toEqual({
+			kind: 'clip',
+			id: 'FunnySlugName-abc123',
+		});
+	});
+
+	it('parses embedded players', () => {
+		expect(parseTwitchUrl('https://player.twitch.tv/?video=v1234567890&parent=example.com')).toEqual({
+			kind: 'video',
+			id: '1234567890',
+		});
+		expect(parseTwitchUrl('https://clips.twitch.tv/embed?clip=FunnySlug&parent=example.com')).toEqual({
+			kind: 'clip',
+			id: 'FunnySlug',
+		});
+	});
+
+	it('returns null for channel pages', () => {
+		expect(parseTwitchUrl('https://www.twitch.tv/somechannel')).toBeNull();
+		expect(parseTwitchUrl('https://www.twitch.tv/videos/not-a-number')).toBeNull();
+	});
+
+	it('returns null for other hosts', () => {
+		expect(parseTwitchUrl('https://example.com/videos/1234567890')).toBeNull();
+	});
+});
+
+describe('parseVimeoUrl', () => {
+	it('parses vimeo.com/ID', () => {
+		expect(parseVimeoUrl('https://vimeo.com/123456')).toEqual({ id: '123456' });
+	});
+
+	it('parses player.vimeo.com/video/ID', () => {
+		expect(parseVimeoUrl('https://player.vimeo.com/video/123456')).toEqual({ id: '123456' });
+	});
+
+	it('parses unlisted vimeo.com/ID/HASH links', () => {
+		expect(parseVimeoUrl('https://vimeo.com/123456/a1b2c3d4e5')).toEqual({ id: '123456', hash: 'a1b2c3d4e5' });
+	});
+
+	it('parses unlisted ?h=HASH links', () => {
+		expect(parseVimeoUrl('https://player.vimeo.com/video/123456?h=a1b2c3d4e5')).toEqual({
+			id: '123456',
+			hash: 'a1b2c3d4e5',
+		});
+	});
+
+	it('parses /channels/x/ID', () => {
+		expect(parseVimeoUrl('https://vimeo.com/channels/staffpicks/123456')).toEqual({ id: '123456' });
+	});
+
+	it('parses /groups/x/videos/ID', () => {
+		expect(parseVimeoUrl('https://vimeo.com/groups/motion/videos/123456')).toEqual({ id: '123456' });
+	});
+
+	it('parses /showcase/x/video/ID', () => {
+		expect(parseVimeoUrl('https://vimeo.com/showcase/9876/video/123456')).toEqual({ id: '123456' });
+	});
+
+	it('ignores a trailing segment that is not a hash', () => {
+		expect(parseVimeoUrl('https://vimeo.com/123456/likes')).toEqual({ id: '123456' });
+	});
+
+	it('returns null for non-video Vimeo pages', () => {
+		expect(parseVimeoUrl('https://vimeo.com/channels/staffpicks')).toBeNull();
+		expect(parseVimeoUrl('https://vimeo.com/someuser')).toBeNull();
+		expect(parseVimeoUrl('https://vimeo.com/')).toBeNull();
+	});
+
+	it('returns null for non-Vimeo hosts', () => {
+		expect(parseVimeoUrl('https://notvimeo.com/123456')).toBeNull();
+		expect(parseVimeoUrl('not-a-url')).toBeNull();
+	});
+});
+
+describe('parseStartTime', () => {
+	const start = (url: string) => parseStartTime(new URL(url));
+
+	it('reads plain seconds from t=', () => {
+		expect(start('https://youtu.be/abcxxxxxxxx?t=42')).toBe(42);
+		expect(start('https://youtu.be/abcxxxxxxxx?t=42s')).toBe(42);
+	});
+
+	it('reads h/m/s notation', () => {
+		expect(start('https://www.youtube.com/watch?v=abcxxxxxxxx&t=1h2m3s')).toBe(3723);
+		expect(start('https://www.youtube.com/watch?v=abcxxxxxxxx&t=5m')).toBe(300);
+	});
+
+	it('reads start=', () => {
+		expect(start('https://www.youtube.com/embed/abcxxxxxxxx?start=75')).toBe(75);
+	});
+
+	it('reads clock notation', () => {
+		expect(start('https://peer.example.org/w/abc?start=1:02:03')).toBe(3723);
+		expect(start('https://peer.example.org/w/abc?start=02:30')).toBe(150);
+	});
+
+	it('reads media fragment #t=', () => {
+		expect(start('https://vimeo.com/123#t=30')).toBe(30);
+		expect(start('https://example.com/clip.mp4#t=12.5,20')).toBe(12);
+		expect(start('https://example.com/clip.mp4#t=npt:10')).toBe(10);
+	});
+
+	it('returns undefined when no start time is present', () => {
+		expect(start('https://youtu.be/abcxxxxxxxx')).toBeUndefined();
+	});
+
+	it('returns undefined for unparseable values', () => {
+		expect(start('https://youtu.be/abcxxxxxxxx?t=soon')).toBeUndefined();
+	});
+});
@@ -0,0 +1,203 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+	registerThumbnailProvider,
+	unregisterThumbnailProvider,
+	getThumbnailProviders,
+	resetThumbnailProviders,
+	detectPlatform,
+	matchProvider,
+	normalizeVideoUrl,
+	parseVideoUrl,
+} from '../src/providers.js';
+import { getVideoThumbnail, clearThumbnailCache } from '../src/cache.js';
+import type { ThumbnailProvider } from '../src/types.js';
+import { configurePeerTube, resetPeerTubeConfig } from '../src/peertube.js';
+import { configureRequestGuard, resetRequestGuard } from '../src/guard.js';
+
+function createProvider(overrides: Partial<ThumbnailProvider> = {}): ThumbnailProvider {
+	return {
+		platform: 'inhouse',
+		matches: (url) => url.hostname === 'video.inhouse.test',
+		extractId: (url) => url.pathname.match(/^\/v\/(\w+)/)?.[1] ?? null,
+		resolve: async (ref) => ({
+			url: `https://cdn.inhouse.test/${ref.id}.jpg`,
+			width: 640,
+			height: 360,
+			format: 'jpeg',
+			platform: ref.platform,
+			cached: false,
+			variants: [],
+		}),
+		...overrides,
+	};
+}
+
+beforeEach(() => {
+	configurePeerTube({ instances: ['peer.example.org'] });
+	configureRequestGuard({ lookup: async () => [{ address: '93.184.216.34', family: 4 }] });
+});
+
+afterEach(() => {
+	resetPeerTubeConfig();
+	resetRequestGuard();
+});
+
+describe('provider registry', () => {
+	beforeEach(async () => {
+		resetThumbnailProviders();
+		await clearThumbnailCache();
+	});
+
+	afterEach(() => {
+		resetThumbnailProviders();
+		vi.restoreAllMocks();
+	});
+
+	it('registers the built-in providers by default', () => {
+		const platforms = getThumbnailProviders().map((p) => p.platform);
+		expect(platforms).toEqual(['youtube', 'vimeo', 'dailymotion', 'twitch', 'peertube']);
+	});
+
+	it('detects a registered custom platform', () => {
+		registerThumbnailProvider(createProvider());
+		expect(detectPlatform('https://video.inhouse.test/v/abc')).toBe('inhouse');
+	});
+
+	it('consults later registrations before built-ins', () => {
+		registerThumbnailProvider(createProvider({
+			matches: (url) => url.hostname === 'video.inhouse.test' || url.pathname.startsWith('/w/'),
+		}));
+		expect(detectPlatform('https://other.example.com/w/abc')).toBe('inhouse');
+	});
+
+	it('replaces an existing provider for the same platform', () => {
+		registerThumbnailProvider(createProvider({ platform: 'vimeo' }));
+
+		const vimeo = getThumbnailProviders().filter((p) => p.platform === 'vimeo');
+		expect(vimeo).toHaveLength(1);
+		expect(detectPlatform('https://vimeo.com/123456')).toBeNull();
+	});
+
+	it('unregisters a provider', () => {
+		expect(unregisterThumbnailProvider('vimeo')).toBe(true);
+		expect(detectPlatform('https://vimeo.com/123456')).toBeNull();
+		expect(unregisterThumbnailProvider('vimeo')).toBe(false);
+	});
+
+	it('builds a video reference from the matching provider', () => {
+		registerThumbnailProvider(createProvider());
+
+		const match = matchProvider('https://video.inhouse.test/v/abc');
+		expect(match?.ref).toEqual({
+			platform: 'inhouse',
+			id: 'abc',
+			instance: 'video.inhouse.test',
+			origin: 'https://video.inhouse.test',
+			url: 'https://video.inhouse.test/v/abc',
+			isShort: false,
+			isLive: false,
+		});
+	});
+
+	it('returns no match when the provider cannot extract an id', () => {
+		registerThumbnailProvider(createProvider());
+		expect(matchProvider('https://video.inhouse.test/about')).toBeNull();
+	});
+
+	it('resolves thumbnails through a custom provider', async () => {
+		const resolve = vi.fn(createProvider().resolve);
+		registerThumbnailProvider(createProvider({ resolve }));
+
+		const result = await getVideoThumbnail('https://video.inhouse.test/v/abc');
+
+		expect(result?.url).toBe('https://cdn.inhouse.test/abc.jpg');
+		expect(result?.platform).toBe('inhouse');
+		expect(resolve).toHaveBeenCalledTimes(1);
+	});
+});
+
+describe('normalizeVideoUrl', () => {
+	it('maps every YouTube link shape to the same key', () => {
+		const urls = [
+			'https://youtu.be/dQw4w9WgXcQ',
+			'https://www.youtube.com/watch?v=dQw4w9WgXcQ&t=30',
+			'https://m.youtube.com/watch?v=dQw4w9WgXcQ&utm_source=share',
+			'https://www.youtube.com/embed/dQw4w9WgXcQ',
+		];
+
+		for (const url of urls) {
+			expect(normalizeVideoUrl(url)).toBe('youtube:youtube.com:dQw4w9WgXcQ');
+		}
+	});
+
+	it('includes the instance host for PeerTube', () => {
+		expect(normalizeVideoUrl('https://Peer.Example.org/w/abc-123')).toBe('peertube:peer.example.org:abc-123');
+	});
+
+	it('uses a fixed instance for Vimeo', () => {
+		expect(normalizeVideoUrl('https://player.vimeo.com/video/123456')).toBe('vimeo:vimeo.com:123456');
+	});
+
+	it('maps Dailymotion short links and pages to the same key', () => {
+		expect(normalizeVideoUrl('https://dai.ly/x7tgad0')).toBe('dailymotion:dailymotion.com:x7tgad0');
+		expect(normalizeVideoUrl('https://www.dailymotion.com/video/x7tgad0')).toBe('dailymotion:dailymotion.com:x7tgad0');
+	});
+
+	it('returns null for unsupported URLs', () => {
+		expect(normalizeVideoUrl('https://example.com/video')).toBeNull();
+		expect(normalizeVideoUrl('not-a-url')).toBeNull();
+	});
+});
+
+describe('parseVideoUrl', () => {
+	it('returns a full reference for a YouTube watch URL', () => {
+		expect(parseVideoUrl('https://www.youtube.com/watch?v=dQw4w9WgXcQ&list=PLabc123&t=1m30s')).toEqual({
+			platform: 'youtube',
+			id: 'dQw4w9WgXcQ',
+			instance: 'youtube.com',
+			origin: 'https://youtube.com',
+			url: 'https://www.youtube.com/watch?v=dQw4w9WgXcQ&list=PLabc123&t=1m30s',
+			startTime: 90,
+			playlistId: 'PLabc123',
+			isShort: false,
+			isLive: false,
+		});
+	});
+
+	it('flags YouTube Shorts', () => {
+		const ref = parseVideoUrl('https://www.youtube.com/shorts/dQw4w9WgXcQ');
+		expect(ref?.isShort).toBe(true);
+		expect(ref?.isLive).toBe(false);
+	});
+
+	it('flags YouTube live streams', () => {
+		expect(parseVideoUrl('https://www.youtube.com/live/dQw4w9WgXcQ')?.isLive).toBe(true);
+	});
+
+	it('carries the Vimeo unlisted hash', () => {
+		const ref = parseVideoUrl('https://vimeo.com/123456/a1b2c3d4e5');
+		expect(ref?.id).toBe('123456');
+		expect(ref?.unlistedHash).toBe('a1b2c3d4e5');
+	});
+
+	it('reads the start time from a Vimeo fragment', () => {
+		expect(parseVideoUrl('https://vimeo.com/123456#t=45s')?.startTime).toBe(45);
+	});
+
+	it('reads the PeerTube start parameter and instance origin', () => {
+		const ref = parseVideoUrl('https://peer.example.org/w/abc-123?start=2m');
+		expect(ref?.origin).toBe('https://peer.example.org');
+		expect(ref?.startTime).toBe(120);
+	});
+
+	it('omits optional fields that are not present', () => {
+		const ref = parseVideoUrl('https://youtu.be/dQw4w9WgXcQ');
+		expect(ref).not.toHaveProperty('startTime');
+		expect(ref).not.toHaveProperty('playlistId');
+	});
+
+	it('returns null for unsupported URLs', () => {
+		expect(parseVideoUrl('https://example.com/video')).toBeNull();
+		expect(parseVideoUrl('')).toBeNull();
+	});
+});
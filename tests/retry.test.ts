@@ -0,0 +1,159 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+	backoffDelay,
+	configureRetries,
+	getRetryPolicy,
+	parseRetryAfter,
+	resetRetryConfig,
+	withRetries,
+} from '../src/retry.js';
+import { BlockedRequestError } from '../src/guard.js';
+
+const fast = { maxAttempts: 3, baseDelayMs: 1, maxDelayMs: 50 };
+
+function response(status: number, headers: Record<string, string> = {}): Response {
+	return new Response(null, { status, headers });
+}
+
+describe('getRetryPolicy', () => {
+	afterEach(() => {
+		resetRetryConfig();
+	});
+
+	it('uses defaults without configuration', () => {
+		expect(getRetryPolicy()).toEqual({ maxAttempts: 3, baseDelayMs: 200, maxDelayMs: 5000 });
+	});
+
+	it('layers platform overrides over the global policy', () => {
+		configureRetries({ maxAttempts: 2, platforms: { youtube: { maxAttempts: 5 } } });
+		configureRetries({ platforms: { peertube: { baseDelayMs: 1000 } } });
+
+		expect(getRetryPolicy('youtube')).toMatchObject({ maxAttempts: 5, baseDelayMs: 200 });
+		expect(getRetryPolicy('peertube')).toMatchObject({ maxAttempts: 2, baseDelayMs: 1000 });
+		expect(getRetryPolicy('vimeo')).toMatchObject({ maxAttempts: 2 });
+	});
+});
+
+describe('parseRetryAfter', () => {
+	it('parses delay seconds', () => {
+		expect(parseRetryAfter('3')).toBe(3000);
+	});
+
+	it('parses HTTP dates relative to now', () => {
+		const now = Date.parse('Wed, 21 Oct 2026 07:28:00 GMT');
+		expect(parseRetryAfter('Wed, 21 Oct 2026 07:28:05 GMT', now)).toBe(5000);
+		expect(parseRetryAfter('Wed, 21 Oct 2026 07:27:00 GMT', now)).toBe(0);
+	});
+
+	it('ignores missing or malformed values', () => {
+		expect(parseRetryAfter(null)).toBeNull();
+		expect(parseRetryAfter('soon')).toBeNull();
+	});
+});
+
+describe('backoffDelay', () => {
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it('grows exponentially up to the cap with full jitter', () => {
+		vi.spyOn(Math, 'random').mockReturnValue(1);
+		const policy = { maxAttempts: 5, baseDelayMs: 100, maxDelayMs: 500 };
+
+		expect([1, 2, 3, 4].map((attempt) => backoffDelay(attempt, policy))).toEqual([100, 200, 400, 500]);
+	});
+
+	it('never exceeds the exponential ceiling', () => {
+		vi.spyOn(Math, 'random').mockReturnValue(0.5);
+		expect(backoffDelay(2, { maxAttempts: 3, baseDelayMs: 100, maxDelayMs: 500 })).toBe(100);
+	});
+});
+
+describe('withRetries', () => {
+	it('retries transient statuses until success', async () => {
+		const send = vi.fn()
+			.mockResolvedValueOnce(response(503))
+			.mockResolvedValueOnce(response(429))
+			.mockResolvedValueOnce(response(200));
+
+		const res = await withRetries(send, 'GET', fast);
+
+		expect(res.status).toBe(200);
+		expect(send).toHaveBeenCalledTimes(3);
+	});
+
+	it('returns the last response once attempts run out', async () => {
+		const send = vi.fn().mockImplementation(async () => response(500));
+
+		const res = await withRetries(send, 'HEAD', fast);
+
+		expect(res.status).toBe(500);
+		expect(send).toHaveBeenCalledTimes(3);
+	});
+
+	it('does not retry other statuses', async () => {
+		const send = vi.fn().mockResolvedValue(response(404));
+
+		expect((await withRetries(send, 'GET', fast)).status).toBe(404);
+		expect(send).toHaveBeenCalledTimes(1);
+	});
+
+	it('only retries idempotent methods', async () => {
+		const send = vi.fn().mockResolvedValue(response(503));
+
+		await withRetries(send, 'POST', fast);
+		expect(send).toHaveBeenCalledTimes(1);
+	});
+
+	it('retries network errors', async () => {
+		const send = vi.fn()
+			.mockRejectedValueOnce(new TypeError('fetch failed'))
+			.mockResolvedValueOnce(response(200));
+
+		expect((await withRetries(send, 'GET', fast)).status).toBe(200);
+	});
+
+	it('does not retry blocked requests', async () => {
+		const send = vi.fn().mockRejectedValue(new BlockedRequestError('blocked', 'http://127.0.0.1/'));
+
+		await expect(withRetries(send, 'GET', fast)).rejects.toThrow('blocked');
+		expect(send).toHaveBeenCalledTimes(1);
+	});
+
+	it('waits for Retry-After', async () => {
+		vi.useFakeTimers();
+		try {
+			const send = vi.fn()
+				.mockResolvedValueOnce(response(429, { 'Retry-After': '2' }))
+				.mockResolvedValueOnce(response(200));
+
+			const pending = withRetries(send, 'GET', { maxAttempts: 2, baseDelayMs: 1, maxDelayMs: 5000 });
+			await vi.advanceTimersByTimeAsync(1999);
+			expect(send).toHaveBeenCalledTimes(1);
+
+			await vi.advanceTimersByTimeAsync(1);
+			expect((await pending).status).toBe(200);
+		} finally {
+			vi.useRealTimers();
+		}
+	});
+
+	it('gives up when Retry-After exceeds the maximum delay', async () => {
+		const send = vi.fn().mockResolvedValue(response(503, { 'Retry-After': '120' }));
+
+		expect((await withRetries(send, 'GET', fast)).status).toBe(503);
+		expect(send).toHaveBeenCalledTimes(1);
+	});
+
+	it('stops waiting when the signal aborts', async () => {
+		const controller = new AbortController();
+		const send = vi.fn().mockResolvedValue(response(503));
+
+		const pending = withRetries(send, 'GET', { maxAttempts: 3, baseDelayMs: 10_000, maxDelayMs: 10_000 }, controller.signal);
+		await Promise.resolve();
+		controller.abort(new Error('cancelled'));
+
+		await expect(pending).rejects.toThrow('cancelled');
+		expect(send).toHaveBeenCalledTimes(1);
+	});
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createSqliteCacheStore } from '../src/sqlite.js';
+import type { SqliteCacheStore } from '../src/types.js';
+import { cacheEntry } from './helpers.js';
+
+const sqliteAvailable = await import('node:sqlite').then(
+	() => true,
+	() => false,
+);
+
+describe.skipIf(sqliteAvailable)('createSqliteCacheStore without node:sqlite', () => {
+	it('rejects every call with the required Node.js version', async () => {
+		const store = createSqliteCacheStore({ path: join(tmpdir(), 'unused.db') });
+
+		await expect(store.get('a')).rejects.toThrow(/Node\.js 22\.5 \(with --experimental-sqlite before 22\.13\)/);
+		await expect(store.keys()).rejects.toThrow(/node:sqlite/);
+		await expect(store.close()).resolves.toBeUndefined();
+	});
+});
+
+describe.skipIf(!sqliteAvailable)('createSqliteCacheStore', () => {
+	let directory: string;
+	let stores: SqliteCacheStore[];
+
+	const open = () => {
+		const store = createSqliteCacheStore({ path: join(directory, 'cache.db') });
+		stores.push(store);
+		return store;
+	};
+
+	beforeEach(async () => {
+		directory = await mkdtemp(join(tmpdir(), 'thumbnail-sqlite-'));
+		stores = [];
+	});
+
+	afterEach(async () => {
+		for (const store of stores) await store.close();
+		await rm(directory, { recursive: true, force: true });
+	});
+
+	it('stores, lists and deletes entries', async () => {
+		const store = open();
+
+		await store.set('a', cacheEntry(1));
+		await store.set('b', cacheEntry(2), 1000);
+		await store.set('a', cacheEntry(3));
+
+		expect(await store.get('a')).toEqual(cacheEntry(3));
+		expect(await store.keys()).toEqual(['a', 'b']);
+
+		await store.delete('a');
+		expect(await store.get('a')).toBeUndefined();
+
+		await store.clear();
+		expect(await store.keys()).toEqual([]);
+	});
+
+	it('shares entries between connections to the same file', async () => {
+		const writer = open();
+		const reader = open();
+
+		await writer.set('youtube:youtube.com:abc123xxxxx', cacheEntry(1));
+
+		expect(await reader.get('youtube:youtube.com:abc123xxxxx')).toEqual(cacheEntry(1));
+	});
+
+	it('prunes entries at or past the TTL like pruneExpiredCache', async () => {
+		const store = open();
+		await store.set('expired', cacheEntry(1000));
+		await store.set('boundary', cacheEntry(2000));
+		await store.set('fresh', cacheEntry(2001));
+
+		expect(await store.prune?.(1000, 3000)).toBe(2);
+		expect(await store.keys()).toEqual(['fresh']);
+		expect(await store.prune?.(1000, 3000)).toBe(0);
+	});
+
+	it('reopens after being closed', async () => {
+		const store = open();
+		await store.set('a', cacheEntry(1));
+
+		await store.close();
+
+		expect(await store.get('a')).toEqual(cacheEntry(1));
+	});
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createFileCacheStore, createMemoryCacheStore } from '../src/store.js';
+import { cacheEntry } from './helpers.js';
+
+describe('createMemoryCacheStore', () => {
+	it('stores, lists and deletes entries', async () => {
+		const store = createMemoryCacheStore();
+
+		await store.set('a', cacheEntry(1));
+		await store.set('b', cacheEntry(2), 1000);
+
+		expect(await store.get('a')).toEqual(cacheEntry(1));
+		expect(await store.keys()).toEqual(['a', 'b']);
+
+		await store.delete('a');
+		expect(await store.get('a')).toBeUndefined();
+		expect(await store.keys()).toEqual(['b']);
+	});
+
+	it('clears every entry', async () => {
+		const store = createMemoryCacheStore();
+		await store.set('a', cacheEntry(1));
+
+		await store.clear();
+
+		expect(await store.keys()).toEqual([]);
+	});
+
+	it('keeps instances independent', async () => {
+		const first = createMemoryCacheStore();
+		const second = createMemoryCacheStore();
+
+		await first.set('a', cacheEntry(1));
+
+		expect(await second.get('a')).toBeUndefined();
+	});
+});
+
+describe('createFileCacheStore', () => {
+	let directory: string;
+
+	beforeEach(async () => {
+		directory = await mkdtemp(join(tmpdir(), 'thumbnail-cache-'));
+	});
+
+	afterEach(async () => {
+		await rm(directory, { recursive: true, force: true });
+	});
+
+	it('persists entries across store instances', async () => {
+		await createFileCacheStore({ directory }).set('youtube:youtube.com:abc123xxxxx', cacheEntry(1));
+
+		const reloaded = createFileCacheStore({ directory });
+
+		expect(await reloaded.get('youtube:youtube.com:abc123xxxxx')).toEqual(cacheEntry(1));
+		expect(await reloaded.keys()).toEqual(['youtube:youtube.com:abc123xxxxx']);
+	});
+
+	it('creates the directory on first write and treats a missing one as empty', async () => {
+		const store = createFileCacheStore({ directory: join(directory, 'nested', 'cache') });
+
+		expect(await store.get('a')).toBeUndefined();
+		expect(await store.keys()).toEqual([]);
+
+		await store.set('a', cacheEntry(1));
+		expect(await store.get('a')).toEqual(cacheEntry(1));
+	});
+
+	it('replaces entries atomically without leaving temporary files', async () => {
+		const store = createFileCacheStore({ directory });
+
+		await Promise.all([store.set('a', cacheEntry(1)), createFileCacheStore({ directory }).set('a', cacheEntry(2))]);
+
+		expect([cacheEntry(1), cacheEntry(2)]).toContainEqual(await store.get('a'));
+		expect(await readdir(directory)).toHaveLength(1);
+	});
+
+	it('ignores corrupt entries and interrupted writes', async () => {
+		const store = createFileCacheStore({ directory });
+		await store.set('a', cacheEntry(1));
+		const [file] = await readdir(directory);
+
+		await writeFile(join(directory, `${file}.123.tmp`), '{"key":"a","ent');
+		await writeFile(join(directory, 'broken.json'), 'not json');
+
+		expect(await store.keys()).toEqual(['a']);
+		expect(await store.get('a')).toEqual(cacheEntry(1));
+	});
+
+	it('deletes and clears entries', async () => {
+		const store = createFileCacheStore({ directory });
+		await store.set('a', cacheEntry(1));
+		await store.set('b', cacheEntry(2));
+
+		await store.delete('a');
+		await store.delete('missing');
+		expect(await store.keys()).toEqual(['b']);
+
+		await store.clear();
+		expect(await store.keys()).toEqual([]);
+	});
+});
@@ -0,0 +1,192 @@
+import { describe, it, expect } from 'vitest';
+import {
+	buildSrcset,
+	guessImageFormat,
+	imageAspect,
+	selectThumbnailVariant,
+	sortVariants,
+	toVariant,
+} from '../src/variants.js';
+import type { ThumbnailResult } from '../src/types.js';
+
+describe('guessImageFormat', () => {
+	it('maps known extensions', () => {
+		expect(guessImageFormat('https://x.test/a.jpg')).toBe('jpeg');
+		expect(guessImageFormat('https://x.test/a.JPEG?x=1')).toBe('jpeg');
+		expect(guessImageFormat('https://x.test/a.webp')).toBe('webp');
+		expect(guessImageFormat('https://x.test/a.avif')).toBe('avif');
+		expect(guessImageFormat('https://x.test/a.png')).toBe('png');
+	});
+
+	it('returns unknown without a recognised extension', () => {
+		expect(guessImageFormat('https://x.test/thumb/x1080')).toBe('unknown');
+		expect(guessImageFormat('not-a-url')).toBe('unknown');
+	});
+});
+
+describe('sortVariants', () => {
+	it('orders by width and drops duplicate URLs', () => {
+		const variants = sortVariants([
+			toVariant('https://x.test/b.jpg', 640, 360),
+			toVariant('https://x.test/a.jpg', 320, 180),
+			toVariant('https://x.test/b.jpg', 640, 360),
+		]);
+
+		expect(variants.map((v) => v.url)).toEqual(['https://x.test/a.jpg', 'https://x.test/b.jpg']);
+	});
+});
+
+describe('buildSrcset', () => {
+	it('renders width descriptors in ascending order', () => {
+		const srcset = buildSrcset([
+			toVariant('https://x.test/large.jpg', 1280, 720),
+			toVariant('https://x.test/small.jpg', 320, 180),
+		]);
+
+		expect(srcset).toBe('https://x.test/small.jpg 320w, https://x.test/large.jpg 1280w');
+	});
+
+	it('accepts a thumbnail result', () => {
+		const result: ThumbnailResult = {
+			url: 'https://x.test/large.jpg',
+			width: 1280,
+			height: 720,
+			format: 'jpeg',
+			platform: 'youtube',
+			cached: false,
+			variants: [toVariant('https://x.test/large.jpg', 1280, 720)],
+		};
+
+		expect(buildSrcset(result)).toBe('https://x.test/large.jpg 1280w');
+	});
+
+	it('skips variants with unknown width and duplicate widths', () => {
+		const srcset = buildSrcset([
+			toVariant('https://x.test/unknown.jpg', 0, 0),
+			toVariant('https://x.test/a.jpg', 480, 360),
+			toVariant('https://x.test/a.webp', 480, 360),
+		]);
+
+		expect(srcset).toBe('https://x.test/a.jpg 480w');
+	});
+
+	it('limits the srcset to one format when asked', () => {
+		const variants = [
+			toVariant('https://x.test/a.jpg', 480, 360),
+			toVariant('https://x.test/a.webp', 480, 360),
+			toVariant('https://x.test/b.webp', 1280, 720),
+		];
+
+		expect(buildSrcset(variants, 'webp')).toBe('https://x.test/a.webp 480w, https://x.test/b.webp 1280w');
+	});
+
+	it('returns an empty string without variants', () => {
+		expect(buildSrcset([])).toBe('');
+	});
+});
+
+describe('imageAspect', () => {
+	it('classifies common shapes', () => {
+		expect(imageAspect(1280, 720)).toBe('16:9');
+		expect(imageAspect(480, 360)).toBe('4:3');
+		expect(imageAspect(1080, 1920)).toBe('9:16');
+		expect(imageAspect(295, 166)).toBe('16:9');
+	});
+
+	it('returns null for other or unknown shapes', () => {
+		expect(imageAspect(500, 500)).toBeNull();
+		expect(imageAspect(0, 0)).toBeNull();
+	});
+});
+
+describe('selectThumbnailVariant', () => {
+	const youtube = (isShort = false): ThumbnailResult => {
+		const variant = (name: string, width: number, height: number, letterboxed: boolean) => ({
+			...toVariant(`https://img.youtube.com/vi/abc123xxxxx/${name}.jpg`, width, height),
+			...(isShort ? { contentAspect: '9:16' as const } : letterboxed ? { contentAspect: '16:9' as const } : {}),
+		});
+		return {
+			url: 'https://img.youtube.com/vi/abc123xxxxx/maxresdefault.jpg',
+			width: 1280,
+			height: 720,
+			format: 'jpeg',
+			platform: 'youtube',
+			cached: false,
+			variants: [
+				variant('default', 120, 90, true),
+				variant('mqdefault', 320, 180, false),
+				variant('hqdefault', 480, 360, true),
+				variant('sddefault', 640, 480, true),
+				variant('maxresdefault', 1280, 720, false),
+			],
+		};
+	};
+
+	it('returns the result unchanged without options', () => {
+		const result = youtube();
+		expect(selectThumbnailVariant(result)).toBe(result);
+	});
+
+	it('picks the largest variant within the width bounds', () => {
+		const result = selectThumbnailVariant(youtube(), { minWidth: 300, maxWidth: 700 });
+		expect(result.url).toContain('sddefault');
+		expect(result.width).toBe(640);
+		expect(result.height).toBe(480);
+	});
+
+	it('prefers unboxed 16:9 variants over letterboxed 4:3 ones', () => {
+		const result = selectThumbnailVariant(youtube(), { maxWidth: 700, aspect: '16:9' });
+		expect(result.url).toContain('mqdefault');
+	});
+
+	it('crops a 16:9 frame rather than serving letterboxed 4:3 images', () => {
+		const result = selectThumbnailVariant(youtube(), { aspect: '4:3' });
+		expect(result.url).toContain('maxresdefault');
+	});
+
+	it('uses a genuine 4:3 variant when one exists', () => {
+		const result = selectThumbnailVariant(
+			{
+				...youtube(),
+				variants: [toVariant('https://x.test/wide.jpg', 1280, 720), toVariant('https://x.test/tv.jpg', 640, 480)],
+			},
+			{ aspect: '4:3' },
+		);
+		expect(result.url).toBe('https://x.test/tv.jpg');
+	});
+
+	it('prefers a real 9:16 image for vertical Shorts', () => {
+		const shorts = youtube(true);
+		const result = selectThumbnailVariant(
+			{ ...shorts, variants: [...shorts.variants, toVariant('https://x.test/oar.jpg', 720, 1280)] },
+			{ aspect: '9:16' },
+		);
+		expect(result.url).toBe('https://x.test/oar.jpg');
+	});
+
+	it('falls back to the closest width when nothing fits the bounds', () => {
+		expect(selectThumbnailVariant(youtube(), { minWidth: 2000 }).width).toBe(1280);
+		expect(selectThumbnailVariant(youtube(), { maxWidth: 100 }).width).toBe(120);
+	});
+
+	it('prefers the requested format among variants of the same size', () => {
+		const base = youtube();
+		const withWebp = {
+			...base,
+			variants: [
+				...base.variants,
+				toVariant('https://i.ytimg.com/vi_webp/abc123xxxxx/mqdefault.webp', 320, 180),
+				toVariant('https://i.ytimg.com/vi_webp/abc123xxxxx/maxresdefault.webp', 1280, 720),
+			],
+		};
+
+		expect(selectThumbnailVariant(withWebp, { preferFormat: 'webp' })).toMatchObject({
+			url: 'https://i.ytimg.com/vi_webp/abc123xxxxx/maxresdefault.webp',
+			format: 'webp',
+		});
+		expect(selectThumbnailVariant(withWebp, { maxWidth: 400, preferFormat: 'webp' }).url).toBe(
+			'https://i.ytimg.com/vi_webp/abc123xxxxx/mqdefault.webp',
+		);
+		expect(selectThumbnailVariant(withWebp, { preferFormat: 'avif' }).format).toBe('jpeg');
+	});
+});
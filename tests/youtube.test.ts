@@ -0,0 +1,156 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+	configureYouTube,
+	createRequestLimiter,
+	firstInPriorityOrder,
+	getYouTubeProbeConcurrency,
+	resetYouTubeConfig,
+} from '../src/youtube.js';
+import { flush } from './helpers.js';
+
+function deferred<T>() {
+	let resolve!: (value: T) => void;
+	const promise = new Promise<T>((res) => {
+		resolve = res;
+	});
+	return { promise, resolve };
+}
+
+describe('getYouTubeProbeConcurrency', () => {
+	afterEach(() => {
+		resetYouTubeConfig();
+	});
+
+	it('sends every probe request at once by default', () => {
+		expect(getYouTubeProbeConcurrency()).toBe(8);
+	});
+
+	it('uses the configured value and never drops below one', () => {
+		configureYouTube({ probeConcurrency: 2 });
+		expect(getYouTubeProbeConcurrency()).toBe(2);
+
+		configureYouTube({ probeConcurrency: 0 });
+		expect(getYouTubeProbeConcurrency()).toBe(1);
+	});
+});
+
+describe('firstInPriorityOrder', () => {
+	it('returns the highest-priority success', async () => {
+		const result = await firstInPriorityOrder(
+			[async () => null, async () => 'second', async () => 'third'],
+			3,
+		);
+		expect(result).toBe('second');
+	});
+
+	it('treats rejected tasks as failures', async () => {
+		const result = await firstInPriorityOrder(
+			[async () => Promise.reject(new Error('boom')), async () => 'fallback'],
+			2,
+		);
+		expect(result).toBe('fallback');
+	});
+
+	it('returns null when every task fails or there are none', async () => {
+		expect(await firstInPriorityOrder([async () => null, async () => null], 2)).toBeNull();
+		expect(await firstInPriorityOrder([], 2)).toBeNull();
+	});
+
+	it('resolves as soon as the first task succeeds and aborts the rest', async () => {
+		const slow = deferred<string | null>();
+		const signals: AbortSignal[] = [];
+
+		const result = await firstInPriorityOrder(
+			[
+				async (signal) => {
+					signals.push(signal);
+					return 'first';
+				},
+				(signal) => {
+					signals.push(signal);
+					return slow.promise;
+				},
+			],
+			2,
+		);
+
+		expect(result).toBe('first');
+		expect(signals.map((signal) => signal.aborted)).toEqual([true, true]);
+	});
+
+	it('does not start lower-priority tasks after a success', async () => {
+		const first = deferred<string | null>();
+		const started: number[] = [];
+
+		const lookup = firstInPriorityOrder(
+			[0, 1, 2].map((index) => () => {
+				started.push(index);
+				return index === 0 ? first.promise : Promise.resolve(null);
+			}),
+			1,
+		);
+		await flush();
+		first.resolve('winner');
+
+		expect(await lookup).toBe('winner');
+		expect(started).toEqual([0]);
+	});
+});
+
+describe('createRequestLimiter', () => {
+	it('runs at most the given number of requests at once, in arrival order', async () => {
+		const limit = createRequestLimiter(2);
+		const gates = [0, 1, 2, 3].map(() => deferred<void>());
+		const started: number[] = [];
+
+		const runs = gates.map((gate, index) =>
+			limit(async () => {
+				started.push(index);
+				await gate.promise;
+				return index;
+			}),
+		);
+		await flush();
+		expect(started).toEqual([0, 1]);
+
+		gates[1]?.resolve();
+		await flush();
+		expect(started).toEqual([0, 1, 2]);
+
+		for (const gate of gates) gate.resolve();
+		expect(await Promise.all(runs)).toEqual([0, 1, 2, 3]);
+		expect(started).toEqual([0, 1, 2, 3]);
+	});
+
+	it('frees the slot when a request fails', async () => {
+		const limit = createRequestLimiter(1);
+
+		await expect(limit(async () => Promise.reject(new Error('boom')))).rejects.toThrow('boom');
+		expect(await limit(async () => 'next')).toBe('next');
+	});
+
+	it('drops queued requests whose signal aborts before they start', async () => {
+		const limit = createRequestLimiter(1);
+		const gate = deferred<void>();
+		const controller = new AbortController();
+		const started: string[] = [];
+
+		const first = limit(async () => {
+			started.push('first');
+			await gate.promise;
+		});
+		const queued = limit(async () => {
+			started.push('queued');
+		}, controller.signal);
+		const last = limit(async () => {
+			started.push('last');
+		});
+
+		controller.abort(new Error('not needed'));
+		await expect(queued).rejects.toThrow('not needed');
+
+		gate.resolve();
+		await Promise.all([first, last]);
+		expect(started).toEqual(['first', 'last']);
+	});
+});